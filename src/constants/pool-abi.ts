@@ -0,0 +1,25 @@
+import type { CircuitType } from '../services/proof-generator';
+
+/**
+ * Privacy pool contract ABI
+ * Each entry point takes the Groth16 proof in Solidity verifier order (a, b, c) followed by the public signals.
+ * Deposit, Withdrawal and Transfer report every commitment the pool inserts (with its leaf index); the event
+ * indexer follows them. NullifierSpent reports every nullifier it spends; the nullifier registry follows it.
+ */
+
+export const POOL_ABI = [
+  'function shield(uint256[2] a, uint256[2][2] b, uint256[2] c, uint256[5] input) payable',
+  'function unshield(uint256[2] a, uint256[2][2] b, uint256[2] c, uint256[9] input)',
+  'function transfer(uint256[2] a, uint256[2][2] b, uint256[2] c, uint256[10] input)',
+  'event NullifierSpent(uint256 indexed nullifierHash)',
+  'event Deposit(uint256 indexed commitment, uint32 leafIndex, uint256 timestamp)',
+  'event Withdrawal(uint256 indexed nullifierHash, uint256 changeCommitment, uint32 changeLeafIndex)',
+  'event Transfer(uint256 indexed nullifierHash, uint256 outputCommitment, uint32 outputLeafIndex, uint256 changeCommitment, uint32 changeLeafIndex)'
+];
+
+// Pool entry point for each circuit's proofs
+export const POOL_METHODS: Record<CircuitType, string> = {
+  shield: 'shield',
+  unshield: 'unshield',
+  transfer: 'transfer'
+};
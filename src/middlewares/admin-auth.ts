@@ -0,0 +1,25 @@
+import { Request, Response, NextFunction } from 'express';
+
+/**
+ * Admin auth middleware
+ * Requires the x-admin-token header to match ADMIN_TOKEN; admin routes are disabled when ADMIN_TOKEN is unset
+ */
+export function requireAdmin(req: Request, res: Response, next: NextFunction) {
+  const adminToken = process.env.ADMIN_TOKEN;
+
+  if (!adminToken) {
+    return res.status(403).json({
+      success: false,
+      error: 'Admin endpoints are disabled (ADMIN_TOKEN not configured)'
+    });
+  }
+
+  if (req.header('x-admin-token') !== adminToken) {
+    return res.status(401).json({
+      success: false,
+      error: 'Invalid admin token'
+    });
+  }
+
+  next();
+}
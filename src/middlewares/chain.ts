@@ -0,0 +1,29 @@
+import { Request, Response, NextFunction } from 'express';
+import { chainRegistry, UnknownChainError } from '../services/chain-registry';
+
+/**
+ * Chain middleware
+ * Resolves the request's chain from chainId/network (body or query, default chain when absent) into
+ * res.locals.chain, refusing chains that aren't in the chain config
+ */
+export function resolveChain(req: Request, res: Response, next: NextFunction) {
+  const chainId = req.body?.chainId ?? req.query.chainId;
+  const network = req.body?.network ?? req.query.network;
+
+  try {
+    res.locals.chain = chainRegistry.resolve(chainId, network);
+    next();
+  } catch (error: any) {
+    if (error instanceof UnknownChainError) {
+      return res.status(400).json({
+        success: false,
+        error: error.message,
+        supportedChains: chainRegistry.list().map(chain => ({
+          chainId: chain.config.chainId,
+          name: chain.config.name
+        }))
+      });
+    }
+    next(error);
+  }
+}
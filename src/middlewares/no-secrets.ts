@@ -0,0 +1,23 @@
+import { Request, Response, NextFunction } from 'express';
+import { proofGenerator, PrivateInputsRejectedError } from '../services/proof-generator';
+
+/**
+ * No-secrets middleware
+ * In no-secrets mode, refuses proving requests before any note secret is parsed or logged
+ */
+export function rejectPrivateInputs(req: Request, res: Response, next: NextFunction) {
+  try {
+    proofGenerator.assertServerProvingAllowed(req.body);
+    next();
+  } catch (error: any) {
+    if (error instanceof PrivateInputsRejectedError) {
+      return res.status(403).json({
+        success: false,
+        error: error.message,
+        rejectedFields: error.fields,
+        hint: 'Fetch circuit artifacts from /api/privacy/circuits, prove client-side, then POST the proof to /api/privacy/verify or /api/privacy/relay'
+      });
+    }
+    next(error);
+  }
+}
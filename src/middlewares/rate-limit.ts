@@ -0,0 +1,33 @@
+import { Request, Response, NextFunction } from 'express';
+
+/**
+ * Rate limit middleware
+ * Counts requests per client IP in fixed windows and answers 429 once a client exceeds max in the current window;
+ * the counters are dropped at the end of each window, so memory is bounded by the clients seen in one window
+ */
+export function rateLimit({ windowMs, max, action }: { windowMs: number; max: number; action: string }) {
+  let windowStart = Date.now();
+  let counts: Map<string, number> = new Map();
+
+  return (req: Request, res: Response, next: NextFunction) => {
+    const now = Date.now();
+    if (now - windowStart >= windowMs) {
+      windowStart = now;
+      counts = new Map();
+    }
+
+    const client = req.ip || req.socket.remoteAddress || 'unknown';
+    const count = (counts.get(client) || 0) + 1;
+    counts.set(client, count);
+
+    if (count > max) {
+      res.set('Retry-After', String(Math.ceil((windowStart + windowMs - now) / 1000)));
+      return res.status(429).json({
+        success: false,
+        error: `Too many requests to ${action}; at most ${max} per ${windowMs / 1000}s`
+      });
+    }
+
+    next();
+  };
+}
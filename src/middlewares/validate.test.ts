@@ -0,0 +1,64 @@
+import { describe, expect, it, vi } from 'vitest';
+import { Field, fields, objectSchema } from '../utils/schema';
+import { validateRequest } from './validate';
+
+function run(middleware: ReturnType<typeof validateRequest>, req: { body?: any; query?: any; params?: any }) {
+  const res: any = { locals: {} };
+  res.status = vi.fn(() => res);
+  res.json = vi.fn(() => res);
+  const next = vi.fn();
+
+  middleware({ body: {}, query: {}, params: {}, ...req } as any, res, next);
+  return { res, next };
+}
+
+describe('validateRequest', () => {
+  const middleware = validateRequest({
+    body: objectSchema({ amount: fields.amount() }),
+    query: objectSchema({ limit: fields.integer({ min: 1 }).optional() }),
+    params: objectSchema({ id: fields.string({ pattern: /^[a-z]+$/ }) })
+  });
+
+  it('parses each part into res.locals and calls next', () => {
+    const { res, next } = run(middleware, { body: { amount: 2 }, query: { limit: '5' }, params: { id: 'abc' } });
+
+    expect(next).toHaveBeenCalledWith();
+    expect(res.locals).toEqual({ body: { amount: '2' }, query: { limit: 5 }, params: { id: 'abc' } });
+    expect(res.status).not.toHaveBeenCalled();
+  });
+
+  it('answers 400 listing the offending fields of every part', () => {
+    const { res, next } = run(middleware, { body: {}, query: { limit: '0' }, params: { id: 'ABC' } });
+
+    expect(next).not.toHaveBeenCalled();
+    expect(res.status).toHaveBeenCalledWith(400);
+    expect(res.json).toHaveBeenCalledWith({
+      success: false,
+      error: expect.stringMatching(/^Invalid request: /),
+      fields: [
+        { field: 'amount', message: 'is required' },
+        { field: 'limit', message: 'must be at least 1' },
+        { field: 'id', message: 'must match ^[a-z]+$' }
+      ]
+    });
+  });
+
+  it('only checks the parts it has schemas for', () => {
+    const { res, next } = run(validateRequest({ query: objectSchema({}) }), { body: 'not an object' });
+
+    expect(next).toHaveBeenCalledWith();
+    expect(res.locals).toEqual({ query: {} });
+  });
+
+  it('passes unexpected errors to next instead of answering 400', () => {
+    const boom = new Error('boom');
+    const failing = validateRequest({
+      body: objectSchema({ value: new Field<string>(() => { throw boom; }, {}) })
+    });
+
+    const { res, next } = run(failing, { body: { value: 'x' } });
+
+    expect(next).toHaveBeenCalledWith(boom);
+    expect(res.status).not.toHaveBeenCalled();
+  });
+});
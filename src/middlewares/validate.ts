@@ -0,0 +1,52 @@
+import { Request, Response, NextFunction } from 'express';
+import { ObjectSchema, RequestValidationError, Shape, validate } from '../utils/schema';
+
+/**
+ * Validation middleware
+ * Parses the request body, query and route params against their schemas into res.locals.body, .query and
+ * .params, answering 400 with every offending field when any of them is invalid
+ */
+
+export interface RequestSchemas {
+  body?: ObjectSchema<Shape>;
+  query?: ObjectSchema<Shape>;
+  params?: ObjectSchema<Shape>;
+}
+
+const PARTS = ['body', 'query', 'params'] as const;
+
+export function sendValidationError(res: Response, error: RequestValidationError) {
+  return res.status(400).json({
+    success: false,
+    error: error.message,
+    fields: error.fields
+  });
+}
+
+export function validateRequest(schemas: RequestSchemas) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const issues: RequestValidationError['fields'] = [];
+
+    for (const part of PARTS) {
+      const schema = schemas[part];
+      if (!schema) {
+        continue;
+      }
+
+      try {
+        res.locals[part] = validate(schema, req[part]);
+      } catch (error: any) {
+        if (!(error instanceof RequestValidationError)) {
+          return next(error);
+        }
+        issues.push(...error.fields);
+      }
+    }
+
+    if (issues.length > 0) {
+      return sendValidationError(res, new RequestValidationError(issues));
+    }
+
+    next();
+  };
+}
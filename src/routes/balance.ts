@@ -0,0 +1,122 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { ChainContext } from '../services/chain-registry';
+import { proofGenerator } from '../services/proof-generator';
+import { tokenRegistry, TokenInfo } from '../services/token-registry';
+import { walletBalance, ViewingKeyScan, WalletNote } from '../services/wallet-balance';
+import { resolveChain } from '../middlewares/chain';
+import { sendValidationError, validateRequest } from '../middlewares/validate';
+import { AmountError, parseAmount } from '../utils/amounts';
+import { RequestValidationError } from '../utils/schema';
+import { BalanceRequest, MAX_NOTE_PAGE, balanceSchema } from '../schemas/privacy';
+
+const router = Router();
+
+const NOTE_SECRETS = ['secret', 'nullifier', 'randomness'];
+
+/**
+ * In no-secrets mode, notes must be described by commitment and nullifierHash; refuse secrets and viewing keys
+ * before they are parsed
+ */
+function rejectBalanceSecrets(req: Request, res: Response, next: NextFunction) {
+  if (!proofGenerator.isNoSecretsMode()) {
+    return next();
+  }
+
+  const notes = Array.isArray(req.body?.notes) ? req.body.notes : [];
+  const rejectedFields = [
+    ...(req.body?.viewingKey !== undefined ? ['viewingKey'] : []),
+    ...notes.flatMap((note: any, i: number) =>
+      NOTE_SECRETS.filter(key => note?.[key] !== undefined).map(key => `notes[${i}].${key}`)
+    )
+  ];
+
+  if (rejectedFields.length > 0) {
+    return res.status(403).json({
+      success: false,
+      error: `Note secrets are not accepted in no-secrets mode: ${rejectedFields.join(', ')}`,
+      rejectedFields,
+      hint: 'Describe each note by its commitment and nullifierHash instead'
+    });
+  }
+
+  next();
+}
+
+/**
+ * @route POST /api/privacy/balance
+ * @desc Shielded balance per token for a set of notes and/or the notes delivered to a viewing key
+ * A viewing key scan covers one page of the note log (from/limit); wallets add up the pages until nextFrom
+ * reaches total.
+ */
+router.post('/', rejectBalanceSecrets, resolveChain, validateRequest({ body: balanceSchema }), async (req: Request, res: Response) => {
+  const chain: ChainContext = res.locals.chain;
+  const { chainId } = chain.config;
+
+  try {
+    const { notes = [], viewingKey, from = 0, limit = MAX_NOTE_PAGE }: BalanceRequest = res.locals.body;
+    const walletNotes: WalletNote[] = [];
+
+    for (const [i, note] of notes.entries()) {
+      let tokenInfo: TokenInfo;
+      try {
+        tokenInfo = await tokenRegistry.resolveToken(chainId, note.token, note.tokenAddress);
+      } catch (error: any) {
+        return res.status(400).json({
+          success: false,
+          error: `notes[${i}]: ${error.message}`
+        });
+      }
+
+      const amount = parseAmount(note.amount, tokenInfo.decimals, `notes[${i}].amount`);
+
+      const commitment = note.secret !== undefined
+        ? chain.proofGenerator.generateCommitment(note.secret, note.nullifier, note.randomness)
+        : note.commitment;
+      if (note.commitment !== undefined && note.commitment !== commitment) {
+        return sendValidationError(res, new RequestValidationError([{
+          field: `notes[${i}].commitment`,
+          message: "does not match the note's secret, nullifier and randomness"
+        }]));
+      }
+
+      const nullifierHash = note.nullifier !== undefined && note.randomness !== undefined
+        ? chain.proofGenerator.generateNullifierHash(note.nullifier, note.randomness)
+        : note.nullifierHash;
+      if (note.nullifierHash !== undefined && note.nullifierHash !== nullifierHash) {
+        return sendValidationError(res, new RequestValidationError([{
+          field: `notes[${i}].nullifierHash`,
+          message: "does not match the note's nullifier and randomness"
+        }]));
+      }
+
+      walletNotes.push({ token: tokenInfo, amount, commitment, nullifierHash, source: 'request', requestIndex: i });
+    }
+
+    let scan: ViewingKeyScan | null = null;
+    if (viewingKey) {
+      scan = await walletBalance.notesForViewingKey(chain, viewingKey, from, limit);
+      walletNotes.push(...scan.notes);
+    }
+
+    const result = await walletBalance.getBalance(chain, walletNotes);
+
+    res.json({
+      success: true,
+      chainId,
+      ...result,
+      viewingKeyScan: scan && { from: scan.from, scanned: scan.scanned, nextFrom: scan.nextFrom, total: scan.total }
+    });
+
+  } catch (error: any) {
+    if (error instanceof AmountError) {
+      return sendValidationError(res, new RequestValidationError([{ field: error.field, message: error.reason }]));
+    }
+    console.error('❌ Balance error:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Balance lookup failed'
+    });
+  }
+});
+
+export default router;
@@ -0,0 +1,38 @@
+import { Router, Request, Response } from 'express';
+import { chainRegistry } from '../services/chain-registry';
+import { tokenRegistry } from '../services/token-registry';
+import { relayer } from '../services/relayer';
+
+const router = Router();
+
+/**
+ * @route GET /api/privacy/chains
+ * @desc List the supported chains with their pool, tokens and relayer availability
+ */
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    const chains = await Promise.all(chainRegistry.list().map(async ({ config, merkleTree }) => ({
+      chainId: config.chainId,
+      name: config.name,
+      poolAddress: config.poolAddress,
+      relayerAvailable: relayer.isEnabledFor(config.chainId),
+      tokens: await tokenRegistry.listTokens(config.chainId),
+      circuitsUrl: `/api/privacy/circuits?chainId=${config.chainId}`,
+      merkleRoot: merkleTree.getRoot()
+    })));
+
+    res.json({
+      success: true,
+      defaultChainId: chainRegistry.getDefaultChainId(),
+      chains
+    });
+
+  } catch (error: any) {
+    res.status(500).json({
+      success: false,
+      error: error.message
+    });
+  }
+});
+
+export default router;
@@ -0,0 +1,181 @@
+import { Router, Request, Response } from 'express';
+import * as fs from 'fs';
+import { CircuitType, CIRCUIT_TYPES } from '../services/proof-generator';
+import { CircuitVersionError } from '../services/circuit-manifest';
+import { ChainContext } from '../services/chain-registry';
+import { proofQueue } from '../services/proof-queue';
+import { resolveChain } from '../middlewares/chain';
+import { requireAdmin } from '../middlewares/admin-auth';
+import { validateRequest } from '../middlewares/validate';
+import {
+  CircuitArtifactParams,
+  CircuitQuery,
+  chainQuery,
+  circuitArtifactParams,
+  circuitParams,
+  circuitQuery,
+  circuitReloadSchema
+} from '../schemas/privacy';
+
+const router = Router();
+
+const ARTIFACT_FILES: Record<CircuitArtifactParams['artifact'], 'wasmPath' | 'zkeyPath' | 'vkeyPath'> = {
+  wasm: 'wasmPath',
+  zkey: 'zkeyPath',
+  vkey: 'vkeyPath'
+};
+
+/**
+ * @route GET /api/privacy/circuits?chainId=
+ * @desc List a chain's circuit artifacts (with SHA-256 hashes) for client-side proving, one entry per loaded version
+ */
+router.get('/', resolveChain, validateRequest({ query: chainQuery }), (req: Request, res: Response) => {
+  const { config, proofGenerator }: ChainContext = res.locals.chain;
+
+  try {
+    const circuits = CIRCUIT_TYPES.flatMap(circuitType =>
+      proofGenerator.listCircuitVersions(circuitType).map(version => {
+        const query = `chainId=${config.chainId}&version=${version}`;
+        return {
+          ...proofGenerator.getCircuitMetadata(circuitType, version),
+          wasmUrl: `/api/privacy/circuits/${circuitType}/wasm?${query}`,
+          zkeyUrl: `/api/privacy/circuits/${circuitType}/zkey?${query}`,
+          vkeyUrl: `/api/privacy/circuits/${circuitType}/vkey?${query}`,
+          verifierUrl: `/api/privacy/circuits/${circuitType}/verifier.sol?${query}`
+        };
+      })
+    );
+
+    res.json({
+      success: true,
+      chainId: config.chainId,
+      noSecretsMode: proofGenerator.isNoSecretsMode(),
+      circuits
+    });
+
+  } catch (error: any) {
+    res.status(500).json({
+      success: false,
+      error: error.message
+    });
+  }
+});
+
+/**
+ * @route POST /api/privacy/circuits/reload
+ * @desc Reload a chain's circuit manifest and artifacts (e.g. a new circuit version) without restarting
+ */
+router.post(
+  '/reload',
+  requireAdmin,
+  resolveChain,
+  validateRequest({ body: circuitReloadSchema }),
+  async (req: Request, res: Response) => {
+    const { config, proofGenerator }: ChainContext = res.locals.chain;
+
+    try {
+      const versions = await proofGenerator.reloadCircuits();
+
+      // Workers hold their own copy of the circuits; replace them so queued jobs use the new set
+      proofQueue.recycleWorkers();
+
+      res.json({
+        success: true,
+        chainId: config.chainId,
+        ...versions,
+        proofMode: proofGenerator.getProofMode()
+      });
+
+    } catch (error: any) {
+      console.error('❌ Circuit reload error:', error);
+      res.status(400).json({
+        success: false,
+        error: error.message || 'Circuit reload failed',
+        message: 'Previous circuits are still being served.'
+      });
+    }
+  }
+);
+
+/**
+ * @route GET /api/privacy/circuits/:circuitType/verifier.sol?chainId=&version=
+ * @desc Solidity verifier contract for a circuit version (default latest version)
+ */
+router.get(
+  '/:circuitType/verifier.sol',
+  resolveChain,
+  validateRequest({ params: circuitParams, query: circuitQuery }),
+  async (req: Request, res: Response) => {
+    const { proofGenerator }: ChainContext = res.locals.chain;
+    const circuitType: CircuitType = res.locals.params.circuitType;
+    const { version }: CircuitQuery = res.locals.query;
+
+    try {
+      const { zkeyPath } = proofGenerator.getArtifactPaths(circuitType, version);
+
+      if (!fs.existsSync(zkeyPath)) {
+        return res.status(404).json({
+          success: false,
+          error: `${circuitType} verifier not available (proving key missing)`
+        });
+      }
+
+      const source = await proofGenerator.exportSolidityVerifier(circuitType, version);
+
+      res.type('text/plain').send(source);
+
+    } catch (error: any) {
+      if (error instanceof CircuitVersionError) {
+        return res.status(404).json({
+          success: false,
+          error: error.message
+        });
+      }
+
+      console.error('❌ Verifier export error:', error);
+      res.status(500).json({
+        success: false,
+        error: error.message || 'Verifier export failed'
+      });
+    }
+  }
+);
+
+/**
+ * @route GET /api/privacy/circuits/:circuitType/:artifact?chainId=&version=
+ * @desc Download a circuit version's wasm, zkey or verification key (default latest version)
+ */
+router.get(
+  '/:circuitType/:artifact',
+  resolveChain,
+  validateRequest({ params: circuitArtifactParams, query: circuitQuery }),
+  (req: Request, res: Response) => {
+    const { proofGenerator }: ChainContext = res.locals.chain;
+    const { circuitType, artifact }: CircuitArtifactParams = res.locals.params;
+    const { version }: CircuitQuery = res.locals.query;
+
+    let filePath: string;
+    try {
+      filePath = proofGenerator.getArtifactPaths(circuitType, version)[ARTIFACT_FILES[artifact]];
+    } catch (error: any) {
+      if (error instanceof CircuitVersionError) {
+        return res.status(404).json({
+          success: false,
+          error: error.message
+        });
+      }
+      throw error;
+    }
+
+    if (!fs.existsSync(filePath)) {
+      return res.status(404).json({
+        success: false,
+        error: `${circuitType} ${artifact} not available`
+      });
+    }
+
+    res.sendFile(filePath);
+  }
+);
+
+export default router;
@@ -0,0 +1,90 @@
+import { Router, Request, Response } from 'express';
+import { eventIndexer } from '../services/event-indexer';
+import { ChainContext, chainRegistry, UnknownChainError } from '../services/chain-registry';
+import { requireAdmin } from '../middlewares/admin-auth';
+import { resolveChain } from '../middlewares/chain';
+import { validateRequest } from '../middlewares/validate';
+import { CommitmentStatusQuery, SyncRequest, commitmentStatusParams, commitmentStatusQuery, syncSchema } from '../schemas/privacy';
+
+const router = Router();
+
+/**
+ * @route POST /api/privacy/commitments/sync
+ * @desc Index new pool events ({ chainId } for one chain, otherwise every indexed chain)
+ */
+router.post('/sync', requireAdmin, validateRequest({ body: syncSchema }), async (req: Request, res: Response) => {
+  const { chainId, network }: SyncRequest = res.locals.body;
+
+  try {
+    if (chainId === undefined && network === undefined) {
+      const chains = await eventIndexer.syncAll();
+
+      return res.json({
+        success: chains.every(chain => !chain.error),
+        chains
+      });
+    }
+
+    const chain = chainRegistry.resolve(chainId, network);
+    const result = await eventIndexer.syncChain(chain);
+
+    res.json({
+      success: true,
+      chainId: chain.config.chainId,
+      ...result
+    });
+
+  } catch (error: any) {
+    if (error instanceof UnknownChainError) {
+      return res.status(400).json({
+        success: false,
+        error: error.message
+      });
+    }
+
+    console.error('❌ Event indexer sync error:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Event indexer sync failed'
+    });
+  }
+});
+
+/**
+ * @route GET /api/privacy/commitments/:commitment?chainId=&nullifierHash=
+ * @desc Get whether a commitment is pending, confirmed or (given the note's nullifierHash) spent
+ */
+router.get(
+  '/:commitment',
+  resolveChain,
+  validateRequest({ params: commitmentStatusParams, query: commitmentStatusQuery }),
+  async (req: Request, res: Response) => {
+    const { config }: ChainContext = res.locals.chain;
+    const { nullifierHash }: CommitmentStatusQuery = res.locals.query;
+
+    try {
+      const status = await eventIndexer.getCommitmentStatus(config.chainId, res.locals.params.commitment, nullifierHash);
+
+      if (!status) {
+        return res.status(404).json({
+          success: false,
+          error: 'Commitment not found in the event index'
+        });
+      }
+
+      res.json({
+        success: true,
+        confirmationDepth: eventIndexer.getConfirmationDepth(),
+        ...status
+      });
+
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        error: error.message
+      });
+    }
+  }
+);
+
+export default router;
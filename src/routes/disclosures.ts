@@ -0,0 +1,131 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { ChainContext, chainRegistry, UnknownChainError } from '../services/chain-registry';
+import { proofGenerator } from '../services/proof-generator';
+import { tokenRegistry, TokenInfo } from '../services/token-registry';
+import { DisclosureError, SignedDisclosure, disclosures } from '../services/disclosure';
+import { resolveChain } from '../middlewares/chain';
+import { sendValidationError, validateRequest } from '../middlewares/validate';
+import { RequestValidationError, validate } from '../utils/schema';
+import {
+  DisclosureRequest,
+  VerifyDisclosureRequest,
+  disclosureSchema,
+  signedDisclosureSchema,
+  verifyDisclosureSchema
+} from '../schemas/privacy';
+
+const router = Router();
+
+/**
+ * Reports are built from a note's secrets, so no-secrets mode can't issue them; verifying stays available
+ */
+function rejectInNoSecretsMode(req: Request, res: Response, next: NextFunction) {
+  if (!proofGenerator.isNoSecretsMode()) {
+    return next();
+  }
+
+  res.status(403).json({
+    success: false,
+    error: 'Disclosure reports are not issued in no-secrets mode',
+    hint: 'Reports are built from the note secrets; request them from a service that accepts secrets'
+  });
+}
+
+/**
+ * @route POST /api/privacy/disclosures
+ * @desc Issue a signed selective disclosure report for one note (optionally encrypted to an auditor's viewing key)
+ */
+router.post('/', rejectInNoSecretsMode, resolveChain, validateRequest({ body: disclosureSchema }), async (req: Request, res: Response) => {
+  const chain: ChainContext = res.locals.chain;
+  const { chainId } = chain.config;
+
+  try {
+    const { token, tokenAddress, secret, nullifier, randomness, destination, auditorViewingKey }: DisclosureRequest =
+      res.locals.body;
+
+    let tokenInfo: TokenInfo;
+    try {
+      tokenInfo = await tokenRegistry.resolveToken(chainId, token, tokenAddress);
+    } catch (error: any) {
+      return res.status(400).json({
+        success: false,
+        error: error.message
+      });
+    }
+
+    const disclosure = await disclosures.issue(chain, {
+      secret,
+      nullifier,
+      randomness,
+      token: tokenInfo,
+      destination
+    });
+
+    res.json({
+      success: true,
+      chainId,
+      ...disclosure,
+      encryptedReport: auditorViewingKey ? disclosures.encrypt(disclosure, auditorViewingKey) : null,
+      message: disclosure.report.opening.secret
+        ? 'Disclosure report issued. It reveals this spent note only.'
+        : 'Disclosure report issued. The note is unspent, so its secret is left out and the commitment is attested by signature only.'
+    });
+
+  } catch (error: any) {
+    if (error instanceof DisclosureError) {
+      return res.status(400).json({
+        success: false,
+        error: error.message
+      });
+    }
+    console.error('❌ Disclosure error:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Disclosure report failed'
+    });
+  }
+});
+
+/**
+ * @route POST /api/privacy/disclosures/verify
+ * @desc Check a disclosure report's signature, hashes and chain data ({ report, signature } or
+ *       { encryptedReport, viewingKey })
+ */
+router.post('/verify', validateRequest({ body: verifyDisclosureSchema }), async (req: Request, res: Response) => {
+  try {
+    const { report, signature, encryptedReport, viewingKey }: VerifyDisclosureRequest = res.locals.body;
+
+    const disclosure: SignedDisclosure = encryptedReport
+      ? validate(signedDisclosureSchema, disclosures.decrypt(encryptedReport, viewingKey!))
+      : { report: report!, signature: signature! };
+
+    const chain = chainRegistry.resolve(disclosure.report.chainId);
+    const result = await disclosures.verify(chain, disclosure);
+
+    console.log(result.valid ? '✅ Disclosure report is valid' : '❌ Disclosure report rejected');
+
+    res.json({
+      success: true,
+      ...result,
+      report: disclosure.report
+    });
+
+  } catch (error: any) {
+    if (error instanceof RequestValidationError) {
+      return sendValidationError(res, error);
+    }
+    if (error instanceof DisclosureError || error instanceof UnknownChainError) {
+      return res.status(400).json({
+        success: false,
+        error: error.message
+      });
+    }
+    console.error('❌ Disclosure verify error:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Disclosure verification failed'
+    });
+  }
+});
+
+export default router;
@@ -0,0 +1,17 @@
+import { Router, Request, Response } from 'express';
+import { API_ROUTES } from '../schemas/routes';
+import { buildOpenApiDocument } from '../utils/openapi';
+
+const router = Router();
+
+const { version } = require('../../package.json');
+
+/**
+ * @route GET /api/docs/openapi.json
+ * @desc OpenAPI document generated from the request schemas
+ */
+router.get('/openapi.json', (req: Request, res: Response) => {
+  res.json(buildOpenApiDocument(API_ROUTES, { title: 'Veilon Relayer Service', version }));
+});
+
+export default router;
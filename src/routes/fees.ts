@@ -0,0 +1,53 @@
+import { Router, Request, Response } from 'express';
+import { ChainContext } from '../services/chain-registry';
+import { tokenRegistry, TokenInfo } from '../services/token-registry';
+import { relayerFees, FeeQuoteError } from '../services/relayer-fees';
+import { resolveChain } from '../middlewares/chain';
+import { validateRequest } from '../middlewares/validate';
+import { FeeQuoteQuery, feeQuoteQuery } from '../schemas/privacy';
+
+const router = Router();
+
+/**
+ * @route GET /api/privacy/fee?chainId=&token=&circuitType=
+ * @desc Quote what relaying an unshield or transfer proof costs, in the note's token (informational; proofs don't bind a fee)
+ */
+router.get('/', resolveChain, validateRequest({ query: feeQuoteQuery }), async (req: Request, res: Response) => {
+  const chain: ChainContext = res.locals.chain;
+
+  try {
+    const { token, tokenAddress, circuitType }: FeeQuoteQuery = res.locals.query;
+
+    let tokenInfo: TokenInfo;
+    try {
+      tokenInfo = await tokenRegistry.resolveToken(chain.config.chainId, token, tokenAddress);
+    } catch (error: any) {
+      return res.status(400).json({
+        success: false,
+        error: error.message
+      });
+    }
+
+    const quote = await relayerFees.quote(chain, tokenInfo, circuitType || 'unshield');
+
+    res.json({
+      success: true,
+      quote
+    });
+
+  } catch (error: any) {
+    if (error instanceof FeeQuoteError) {
+      return res.status(400).json({
+        success: false,
+        error: error.message
+      });
+    }
+    console.error('❌ Fee quote error:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Fee quote failed'
+    });
+  }
+});
+
+export default router;
@@ -0,0 +1,91 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { proofQueue, ProofJob } from '../services/proof-queue';
+import { validateRequest } from '../middlewares/validate';
+import { JobTokenQuery, jobParams, jobTokenQuery } from '../schemas/privacy';
+
+const router = Router();
+
+const isFinished = (job: ProofJob) => job.status === 'done' || job.status === 'failed';
+
+/**
+ * Load the job into res.locals.job, refusing requests without its access token (x-job-token header or ?token=,
+ * since EventSource can't set headers)
+ */
+function requireJobToken(req: Request, res: Response, next: NextFunction) {
+  const { id } = res.locals.params;
+  const job = proofQueue.getJob(id);
+
+  if (!job) {
+    return res.status(404).json({
+      success: false,
+      error: 'Job not found'
+    });
+  }
+
+  const { token }: JobTokenQuery = res.locals.query;
+  if (!proofQueue.isAccessToken(id, req.header('x-job-token') || token)) {
+    return res.status(403).json({
+      success: false,
+      error: 'Missing or invalid job access token'
+    });
+  }
+
+  res.locals.job = job;
+  next();
+}
+
+/**
+ * @route GET /api/privacy/jobs/:id
+ * @desc Poll the status (and result once done) of a proof job
+ */
+router.get('/:id', validateRequest({ params: jobParams, query: jobTokenQuery }), requireJobToken, (req: Request, res: Response) => {
+  const job: ProofJob = res.locals.job;
+
+  res.json({
+    success: true,
+    job
+  });
+});
+
+/**
+ * @route GET /api/privacy/jobs/:id/events
+ * @desc Stream job progress as Server-Sent Events until the job is done or failed
+ */
+router.get('/:id/events', validateRequest({ params: jobParams, query: jobTokenQuery }), requireJobToken, (req: Request, res: Response) => {
+  const job: ProofJob = res.locals.job;
+
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive'
+  });
+
+  const send = (update: ProofJob) => {
+    res.write(`event: ${update.status}\n`);
+    res.write(`data: ${JSON.stringify(update)}\n\n`);
+  };
+
+  send(job);
+
+  if (isFinished(job)) {
+    return res.end();
+  }
+
+  const onUpdate = (update: ProofJob) => {
+    if (update.id !== job.id) {
+      return;
+    }
+
+    send(update);
+
+    if (isFinished(update)) {
+      proofQueue.off('update', onUpdate);
+      res.end();
+    }
+  };
+
+  proofQueue.on('update', onUpdate);
+  req.on('close', () => proofQueue.off('update', onUpdate));
+});
+
+export default router;
@@ -0,0 +1,61 @@
+import { Router, Request, Response } from 'express';
+import { noteDelivery, NoteStoreError } from '../services/note-delivery';
+import { rateLimit } from '../middlewares/rate-limit';
+import { validateRequest } from '../middlewares/validate';
+import { MAX_NOTE_PAGE, NotePageQuery, PublishNoteRequest, notePageQuery, publishNoteSchema } from '../schemas/privacy';
+
+const router = Router();
+
+// Publishing is anonymous, so each client is held to NOTE_PUBLISH_RATE_LIMIT notes a minute (default 20)
+const limitPublishing = rateLimit({
+  windowMs: 60_000,
+  max: parseInt(process.env.NOTE_PUBLISH_RATE_LIMIT || '20', 10),
+  action: 'publish notes'
+});
+
+/**
+ * @route GET /api/privacy/notes?from=&limit=
+ * @desc Page through encrypted notes, oldest first; recipients check each note's view tag with their viewing key
+ */
+router.get('/', validateRequest({ query: notePageQuery }), (req: Request, res: Response) => {
+  const { from = 0, limit = MAX_NOTE_PAGE }: NotePageQuery = res.locals.query;
+  const notes = noteDelivery.list(from, limit);
+
+  res.json({
+    success: true,
+    from,
+    count: notes.length,
+    total: noteDelivery.count(),
+    nextFrom: from + notes.length,
+    notes
+  });
+});
+
+/**
+ * @route POST /api/privacy/notes
+ * @desc Publish a note the client encrypted itself ({ encryptedNote })
+ */
+router.post('/', limitPublishing, validateRequest({ body: publishNoteSchema }), (req: Request, res: Response) => {
+  const { encryptedNote }: PublishNoteRequest = res.locals.body;
+
+  try {
+    const stored = noteDelivery.publish(encryptedNote);
+
+    res.json({
+      success: true,
+      note: stored
+    });
+
+  } catch (error: any) {
+    if (error instanceof NoteStoreError) {
+      const status = { tooLarge: 413, duplicate: 409, full: 507 }[error.reason];
+      return res.status(status).json({
+        success: false,
+        error: error.message
+      });
+    }
+    throw error;
+  }
+});
+
+export default router;
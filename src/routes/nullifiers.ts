@@ -0,0 +1,85 @@
+import { Router, Request, Response } from 'express';
+import { nullifierRegistry } from '../services/nullifier-registry';
+import { ChainContext, chainRegistry, UnknownChainError } from '../services/chain-registry';
+import { requireAdmin } from '../middlewares/admin-auth';
+import { resolveChain } from '../middlewares/chain';
+import { validateRequest } from '../middlewares/validate';
+import { SyncRequest, chainQuery, nullifierParams, syncSchema } from '../schemas/privacy';
+
+const router = Router();
+
+/**
+ * @route POST /api/privacy/nullifiers/sync
+ * @desc Import spent nullifiers from the pool contract's events ({ chainId } for one chain, otherwise every chain with a pool)
+ */
+router.post('/sync', requireAdmin, validateRequest({ body: syncSchema }), async (req: Request, res: Response) => {
+  const { chainId, network }: SyncRequest = res.locals.body;
+
+  try {
+    if (chainId === undefined && network === undefined) {
+      const chains = await nullifierRegistry.syncAll();
+
+      return res.json({
+        success: chains.every(chain => !chain.error),
+        chains
+      });
+    }
+
+    const chain = chainRegistry.resolve(chainId, network);
+    const result = await nullifierRegistry.syncFromChain(chain);
+
+    res.json({
+      success: true,
+      chainId: chain.config.chainId,
+      ...result
+    });
+
+  } catch (error: any) {
+    if (error instanceof UnknownChainError) {
+      return res.status(400).json({
+        success: false,
+        error: error.message
+      });
+    }
+
+    console.error('❌ Nullifier sync error:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Nullifier sync failed'
+    });
+  }
+});
+
+/**
+ * @route GET /api/privacy/nullifiers/:hash?chainId=
+ * @desc Check whether a nullifier hash has been spent on a chain
+ */
+router.get(
+  '/:hash',
+  resolveChain,
+  validateRequest({ params: nullifierParams, query: chainQuery }),
+  async (req: Request, res: Response) => {
+    const { config }: ChainContext = res.locals.chain;
+    const { hash } = res.locals.params;
+
+    try {
+      const record = await nullifierRegistry.getRecord(config.chainId, hash);
+
+      res.json({
+        success: true,
+        chainId: config.chainId,
+        nullifierHash: hash,
+        spent: record !== null,
+        record
+      });
+
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        error: error.message
+      });
+    }
+  }
+);
+
+export default router;
@@ -1,82 +1,372 @@
 import { Router, Request, Response } from 'express';
-import { proofGenerator } from '../services/proof-generator';
-import { ethers } from 'ethers';
+import { proofGenerator, CircuitType, CircuitVersionInfo } from '../services/proof-generator';
+import { CircuitVersionError } from '../services/circuit-manifest';
+import { relayer } from '../services/relayer';
+import { proofQueue, QueueFullError } from '../services/proof-queue';
+import { nullifierRegistry } from '../services/nullifier-registry';
+import { rejectPrivateInputs } from '../middlewares/no-secrets';
+import { resolveChain } from '../middlewares/chain';
+import { ChainContext, chainRegistry } from '../services/chain-registry';
+import { noteDelivery, NoteStoreError } from '../services/note-delivery';
+import { EncryptedNote, encryptNote } from '../utils/note-encryption';
+import { AmountError, describeAmount, parseAmount, resolveSpendAmounts } from '../utils/amounts';
+import { RecipientError } from '../utils/recipient';
+import { FieldElementError } from '../utils/field';
+import { NoteDerivationError, NoteSequence } from '../utils/note-derivation';
+import { tokenRegistry, TokenInfo } from '../services/token-registry';
+import { validateRequest, sendValidationError } from '../middlewares/validate';
+import { RequestValidationError } from '../utils/schema';
+import {
+  RelayRequest,
+  ShieldRequest,
+  TransferRequest,
+  UnshieldRequest,
+  VerifyRequest,
+  relaySchema,
+  relayStatusParams,
+  shieldSchema,
+  transferSchema,
+  unshieldSchema,
+  verifySchema
+} from '../schemas/privacy';
 
 const router = Router();
 
+/**
+ * Answer 400 for amount, recipient and field element errors (same body as schema validation); returns false for
+ * anything else
+ */
+function handleInputError(res: Response, error: any): boolean {
+  if (error instanceof AmountError) {
+    sendValidationError(res, new RequestValidationError([{ field: error.field, message: error.reason }]));
+    return true;
+  }
+
+  if (error instanceof RecipientError) {
+    sendValidationError(res, new RequestValidationError([{ field: error.field, message: error.reason }]));
+    return true;
+  }
+
+  if (error instanceof NoteDerivationError) {
+    sendValidationError(res, new RequestValidationError([{ field: error.field, message: error.reason }]));
+    return true;
+  }
+
+  if (error instanceof FieldElementError) {
+    sendValidationError(res, new RequestValidationError([{ field: error.field, message: error.reason }]));
+    return true;
+  }
+
+  return false;
+}
+
+/**
+ * Deterministic mode: derive the secrets of the notes a request creates from its spendingKey, at consecutive
+ * indices from noteIndex. Returns undefined when the request doesn't use it; answers 400 and returns null when
+ * the derivation options are incomplete or invalid.
+ */
+function resolveNoteSequence(
+  res: Response,
+  options: { spendingKey?: string; noteIndex?: number; derivationVersion?: number }
+): NoteSequence | undefined | null {
+  const { spendingKey, noteIndex, derivationVersion } = options;
+
+  if (spendingKey === undefined) {
+    const unused = (['noteIndex', 'derivationVersion'] as const).filter(key => options[key] !== undefined);
+    if (unused.length === 0) {
+      return undefined;
+    }
+    sendValidationError(res, new RequestValidationError(
+      unused.map(field => ({ field, message: 'is only used together with spendingKey' }))
+    ));
+    return null;
+  }
+
+  if (noteIndex === undefined) {
+    sendValidationError(res, new RequestValidationError([
+      { field: 'noteIndex', message: 'is required when spendingKey is given' }
+    ]));
+    return null;
+  }
+
+  try {
+    return new NoteSequence(spendingKey, noteIndex, derivationVersion);
+  } catch (error: any) {
+    if (handleInputError(res, error)) {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Resolve the requested circuit version (default latest); answers 400 for unknown versions, 410 for retired ones
+ */
+function resolveCircuitVersion(
+  res: Response,
+  chain: ChainContext,
+  circuitType: CircuitType,
+  circuitVersion?: string
+): CircuitVersionInfo | null {
+  try {
+    return chain.proofGenerator.assertProvingVersion(circuitType, circuitVersion);
+  } catch (error: any) {
+    if (!(error instanceof CircuitVersionError)) {
+      throw error;
+    }
+    res.status(error.retired ? 410 : 400).json({
+      success: false,
+      error: error.message,
+      availableVersions: chain.proofGenerator.listCircuitVersions(circuitType)
+    });
+    return null;
+  }
+}
+
+/**
+ * Deprecation notice for responses produced with a deprecated circuit version (null otherwise)
+ */
+function describeDeprecation(chain: ChainContext, circuitType: CircuitType, info: CircuitVersionInfo) {
+  if (info.status !== 'deprecated') {
+    return null;
+  }
+
+  return {
+    deprecatedAt: info.deprecatedAt,
+    retiresAt: info.retiresAt,
+    latestVersion: chain.proofGenerator.getLatestVersion(circuitType)
+  };
+}
+
+/**
+ * Refuse relay requests for shield proofs, on chains the relayer doesn't serve, for mocked circuits, or combined
+ * with async proving
+ */
+function rejectUnavailableRelay(
+  res: Response,
+  chain: ChainContext,
+  circuitType: CircuitType,
+  circuitVersion: string | undefined,
+  relay: boolean | undefined,
+  runAsync: boolean | undefined
+): boolean {
+  if (relay && circuitType === 'shield') {
+    res.status(400).json({
+      success: false,
+      error: "Shield proofs can't be relayed: the pool's shield takes the deposit from the sender, so submit it from the depositor's wallet"
+    });
+    return true;
+  }
+
+  if (relay && !relayer.isEnabledFor(chain.config.chainId)) {
+    res.status(400).json({
+      success: false,
+      error: relayer.isEnabled()
+        ? `Relayer has no pool configured on chain ${chain.config.chainId}`
+        : 'Relayer mode is not enabled'
+    });
+    return true;
+  }
+
+  if (relay && chain.proofGenerator.isMockCircuit(circuitType, circuitVersion)) {
+    res.status(400).json({
+      success: false,
+      error: `${circuitType} proofs are mocked on this server and cannot be relayed`,
+      mock: true
+    });
+    return true;
+  }
+
+  if (relay && runAsync) {
+    res.status(400).json({
+      success: false,
+      error: 'relay is not supported for async proof jobs; relay the finished proof via /relay'
+    });
+    return true;
+  }
+
+  return false;
+}
+
+/**
+ * Refuse to prove a spend of a note whose nullifier is already recorded
+ */
+async function rejectSpentNote(
+  res: Response,
+  chain: ChainContext,
+  nullifier: string,
+  randomness: string
+): Promise<boolean> {
+  const nullifierHash = chain.proofGenerator.generateNullifierHash(nullifier, randomness);
+
+  if (await nullifierRegistry.isSpent(chain.config.chainId, nullifierHash)) {
+    console.log('🚫 Input note already spent:', nullifierHash.substring(0, 10) + '...');
+    res.status(409).json({
+      success: false,
+      error: 'Input note has already been spent',
+      nullifierHash
+    });
+    return true;
+  }
+
+  return false;
+}
+
+/**
+ * Secrets for a spend's change note: the ones given, else derived in deterministic mode (else the proof generator
+ * draws random ones)
+ */
+function deriveChangeNote(
+  noteSequence: NoteSequence | undefined,
+  changeSecret?: string,
+  changeNullifier?: string,
+  changeRandomness?: string
+) {
+  if (noteSequence && [changeSecret, changeNullifier, changeRandomness].every(value => value === undefined)) {
+    const derived = noteSequence.next();
+    return { changeSecret: derived.secret, changeNullifier: derived.nullifier, changeRandomness: derived.randomness };
+  }
+  return { changeSecret, changeNullifier, changeRandomness };
+}
+
+/**
+ * Deliver a note the service encrypted; a store that refuses it doesn't fail the request, since the response
+ * carries the envelope for the wallet to publish later
+ */
+function deliverNote(encryptedNote: EncryptedNote): void {
+  try {
+    noteDelivery.publish(encryptedNote);
+  } catch (error: any) {
+    if (!(error instanceof NoteStoreError)) {
+      throw error;
+    }
+    console.warn(`⚠️  Encrypted note for commitment ${encryptedNote.commitment.substring(0, 10)}... not stored: ${error.message}`);
+  }
+}
+
+/**
+ * Queue a proof job against the chain's circuits and answer with its ID instead of waiting for the proof
+ * onDone runs once the job has produced its proof (not when it fails)
+ */
+function enqueueProofJob(
+  res: Response,
+  chain: ChainContext,
+  type: CircuitType,
+  inputs: any,
+  extra: Record<string, any> = {},
+  onDone?: () => void
+) {
+  try {
+    const { job, accessToken } = proofQueue.enqueue(type, inputs, {
+      chainId: chain.config.chainId,
+      circuitsPath: chain.proofGenerator.getCircuitsPath()
+    });
+
+    if (onDone) {
+      proofQueue.onFinished(job.id, finished => {
+        if (finished.status === 'done') {
+          onDone();
+        }
+      });
+    }
+
+    return res.status(202).json({
+      success: true,
+      jobId: job.id,
+      chainId: job.chainId,
+      status: job.status,
+      circuitVersion: inputs.circuitVersion,
+      mock: chain.proofGenerator.isMockCircuit(type, inputs.circuitVersion),
+      accessToken,  // send as x-job-token (or ?token= for EventSource) to read the job
+      statusUrl: `/api/privacy/jobs/${job.id}`,
+      eventsUrl: `/api/privacy/jobs/${job.id}/events`,
+      ...extra,
+      message: `${type} proof job queued.`
+    });
+  } catch (error: any) {
+    if (error instanceof QueueFullError) {
+      return res.status(429).json({
+        success: false,
+        error: error.message
+      });
+    }
+    throw error;
+  }
+}
+
 /**
  * @route POST /api/privacy/shield
  * @desc Generate proof and submit shield transaction
  */
-router.post('/shield', async (req: Request, res: Response) => {
+router.post('/shield', rejectPrivateInputs, resolveChain, validateRequest({ body: shieldSchema }), async (req: Request, res: Response) => {
+  const chain: ChainContext = res.locals.chain;
+  const { proofGenerator } = chain;
+
   try {
-    const { amount, recipient, chainId, network, token, tokenAddress } = req.body;
+    const { amount, recipient, token, tokenAddress, circuitVersion, calldata, relay, async: runAsync }: ShieldRequest =
+      res.locals.body;
 
     console.log('📥 Received shield request:');
     console.log('  Amount:', amount);
     console.log('  Token:', token || 'ETH');
     console.log('  Token Address:', tokenAddress || 'N/A');
     console.log('  Recipient:', recipient);
-    console.log('  Chain:', chainId || network || 'default');
+    console.log('  Chain:', chain.config.name, `(${chain.config.chainId})`);
+
+    const versionInfo = resolveCircuitVersion(res, chain, 'shield', circuitVersion);
+    if (!versionInfo) {
+      return;
+    }
+
+    const noteSequence = resolveNoteSequence(res, res.locals.body);
+    if (noteSequence === null) {
+      return;
+    }
 
-    // Validate inputs
-    if (!amount || parseFloat(amount) <= 0) {
+    if (rejectUnavailableRelay(res, chain, 'shield', versionInfo.version, relay, runAsync)) {
+      return;
+    }
+
+    // Only allowlisted tokens; decimals come from the registry instead of a per-request RPC call
+    let tokenInfo: TokenInfo;
+    try {
+      tokenInfo = await tokenRegistry.resolveToken(chain.config.chainId, token, tokenAddress);
+    } catch (error: any) {
+      console.error('❌ Token rejected:', error.message);
       return res.status(400).json({
         success: false,
-        error: 'Invalid amount'
+        error: error.message
       });
     }
+    const decimals = tokenInfo.decimals;
 
-    // Convert amount to Wei based on token decimals
-    let amountWei: string;
-
-    if (token && token !== 'ETH' && tokenAddress) {
-      // ERC20 token - query contract for decimals
-      console.log('🔍 Querying ERC20 token decimals...');
-      try {
-        const provider = new ethers.JsonRpcProvider(
-          process.env.RPC_URL || 'https://ethereum-sepolia-rpc.publicnode.com'
-        );
+    const { amountBits } = chain.proofGenerator.resolveCircuitVersion('shield', versionInfo.version);
+    const amountBaseUnits = parseAmount(amount, decimals, 'amount', amountBits);
+    if (amountBaseUnits === 0n) {
+      throw new AmountError('amount', 'must be greater than zero');
+    }
 
-        const ERC20_ABI = [
-          'function decimals() view returns (uint8)'
-        ];
+    const amountWei = amountBaseUnits.toString();
+    console.log(`  Amount converted: ${amount} ${tokenInfo.symbol} = ${amountWei} (${decimals} decimals)`);
 
-        const tokenContract = new ethers.Contract(
-          tokenAddress,
-          ERC20_ABI,
-          provider
-        );
+    const proofInputs = {
+      amount: amountWei,
+      recipient,
+      circuitVersion: versionInfo.version,
+      calldata,
+      ...noteSequence?.next()
+    };
 
-        const decimals = await tokenContract.decimals();
-        console.log(`  Token decimals: ${decimals}`);
-
-        amountWei = ethers.parseUnits(amount, decimals).toString();
-        console.log(`  Amount converted: ${amount} ${token} = ${amountWei} (${decimals} decimals)`);
-      } catch (error: any) {
-        console.error('❌ Failed to query token decimals:', error.message);
-        return res.status(400).json({
-          success: false,
-          error: `Failed to query token decimals: ${error.message}`
-        });
-      }
-    } else {
-      // Native ETH - use 18 decimals
-      amountWei = ethers.parseEther(amount).toString();
-      console.log(`  Amount converted: ${amount} ETH = ${amountWei} Wei`);
+    if (runAsync) {
+      return enqueueProofJob(res, chain, 'shield', proofInputs, { derivation: noteSequence?.describe() ?? null });
     }
 
     // Generate proof
     console.log('🔐 Generating shield proof...');
-    const proofResult = await proofGenerator.generateShieldProof({
-      amount: amountWei,
-      recipient: recipient || '0x0000000000000000000000000000000000000000'
-    });
+    const proofResult = await proofGenerator.generateShieldProof(proofInputs);
 
     console.log('✅ Proof generated successfully');
 
-    // For now, return the proof data
-    // In production, this would also submit to blockchain
     res.json({
       success: true,
       commitment: proofResult.commitment,
@@ -85,12 +375,26 @@ router.post('/shield', async (req: Request, res: Response) => {
       randomness: proofResult.randomness,
       proof: proofResult.proof,
       publicSignals: proofResult.publicSignals,
-      chainId: chainId || null,
-      network: network || null,
-      message: 'Shield proof generated. Blockchain submission pending implementation.'
+      decodedSignals: proofResult.decodedSignals,
+      recipient: proofResult.recipient,
+      mock: proofResult.mock,
+      circuitVersion: proofResult.circuitVersion,
+      calldata: proofResult.calldata,
+      circuitDeprecation: describeDeprecation(chain, 'shield', versionInfo),
+      derivation: noteSequence?.describe() ?? null,
+      amount: describeAmount(amountBaseUnits, decimals),
+      token: { address: tokenInfo.address, symbol: tokenInfo.symbol, decimals },
+      chainId: chain.config.chainId,
+      network: chain.config.name,
+      message: proofResult.mock
+        ? 'Mock shield proof generated for development; it will not verify on chain.'
+        : "Shield proof generated. Submit it from the depositor's wallet; the pool takes the deposit from the sender."
     });
 
   } catch (error: any) {
+    if (handleInputError(res, error)) {
+      return;
+    }
     console.error('❌ Shield endpoint error:', error);
     res.status(500).json({
       success: false,
@@ -103,7 +407,10 @@ router.post('/shield', async (req: Request, res: Response) => {
  * @route POST /api/privacy/unshield
  * @desc Generate proof and submit unshield transaction (supports partial amounts)
  */
-router.post('/unshield', async (req: Request, res: Response) => {
+router.post('/unshield', rejectPrivateInputs, resolveChain, validateRequest({ body: unshieldSchema }), async (req: Request, res: Response) => {
+  const chain: ChainContext = res.locals.chain;
+  const { proofGenerator } = chain;
+
   try {
     const {
       inputAmount,
@@ -117,11 +424,13 @@ router.post('/unshield', async (req: Request, res: Response) => {
       changeSecret,
       changeNullifier,
       changeRandomness,
-      chainId,
-      network,
       token,
-      tokenAddress
-    } = req.body;
+      tokenAddress,
+      circuitVersion,
+      calldata,
+      relay,
+      async: runAsync
+    }: UnshieldRequest = res.locals.body;
 
     console.log('📥 Received unshield request:');
     console.log('  Input Amount:', inputAmount);
@@ -130,98 +439,54 @@ router.post('/unshield', async (req: Request, res: Response) => {
     console.log('  Token:', token || 'ETH');
     console.log('  Token Address:', tokenAddress || 'N/A');
     console.log('  Recipient:', recipient);
-    console.log('  Chain:', chainId || network || 'default');
+    console.log('  Chain:', chain.config.name, `(${chain.config.chainId})`);
 
-    // Validate inputs
-    if (!inputAmount || parseFloat(inputAmount) <= 0) {
-      return res.status(400).json({
-        success: false,
-        error: 'Invalid input amount'
-      });
+    if (await rejectSpentNote(res, chain, nullifier, randomness)) {
+      return;
     }
 
-    if (!outputAmount || parseFloat(outputAmount) <= 0) {
-      return res.status(400).json({
-        success: false,
-        error: 'Invalid output amount'
-      });
+    const versionInfo = resolveCircuitVersion(res, chain, 'unshield', circuitVersion);
+    if (!versionInfo) {
+      return;
     }
 
-    // Auto-calculate change if not provided
-    const calculatedChange = changeAmount !== undefined
-      ? changeAmount
-      : (parseFloat(inputAmount) - parseFloat(outputAmount)).toString();
+    const noteSequence = resolveNoteSequence(res, res.locals.body);
+    if (noteSequence === null) {
+      return;
+    }
 
-    if (parseFloat(calculatedChange) < 0) {
-      return res.status(400).json({
-        success: false,
-        error: 'Change amount cannot be negative (output > input)'
-      });
+    if (rejectUnavailableRelay(res, chain, 'unshield', versionInfo.version, relay, runAsync)) {
+      return;
     }
 
-    if (!secret || !nullifier || !randomness) {
+    // Only allowlisted tokens; decimals come from the registry instead of a per-request RPC call
+    let tokenInfo: TokenInfo;
+    try {
+      tokenInfo = await tokenRegistry.resolveToken(chain.config.chainId, token, tokenAddress);
+    } catch (error: any) {
+      console.error('❌ Token rejected:', error.message);
       return res.status(400).json({
         success: false,
-        error: 'Missing required proof inputs (secret, nullifier, randomness)'
+        error: error.message
       });
     }
+    const decimals = tokenInfo.decimals;
 
-    // Convert amounts to Wei based on token decimals
-    let inputAmountWei: string;
-    let outputAmountWei: string;
-    let changeAmountWei: string;
-
-    if (token && token !== 'ETH' && tokenAddress) {
-      // ERC20 token - query contract for decimals
-      console.log('🔍 Querying ERC20 token decimals...');
-      try {
-        const provider = new ethers.JsonRpcProvider(
-          process.env.RPC_URL || 'https://ethereum-sepolia-rpc.publicnode.com'
-        );
-
-        const ERC20_ABI = [
-          'function decimals() view returns (uint8)'
-        ];
+    // Integer base-unit arithmetic; change is derived when omitted
+    const { amountBits } = chain.proofGenerator.resolveCircuitVersion('unshield', versionInfo.version);
+    const amounts = resolveSpendAmounts({ inputAmount, outputAmount, changeAmount }, decimals, amountBits);
+    const inputAmountWei = amounts.input.toString();
+    const outputAmountWei = amounts.output.toString();
+    const changeAmountWei = amounts.change.toString();
 
-        const tokenContract = new ethers.Contract(
-          tokenAddress,
-          ERC20_ABI,
-          provider
-        );
+    console.log('💰 Amount calculations:');
+    console.log(`  Input: ${inputAmount} ${tokenInfo.symbol} = ${inputAmountWei}`);
+    console.log(`  Output: ${outputAmount} ${tokenInfo.symbol} = ${outputAmountWei}`);
+    console.log(`  Change: ${changeAmountWei} base units`);
 
-        const decimals = await tokenContract.decimals();
-        console.log(`  Token decimals: ${decimals}`);
-
-        inputAmountWei = ethers.parseUnits(inputAmount, decimals).toString();
-        outputAmountWei = ethers.parseUnits(outputAmount, decimals).toString();
-        changeAmountWei = ethers.parseUnits(calculatedChange, decimals).toString();
-
-        console.log('💰 Amount calculations:');
-        console.log(`  Input: ${inputAmount} ${token} = ${inputAmountWei}`);
-        console.log(`  Output: ${outputAmount} ${token} = ${outputAmountWei}`);
-        console.log(`  Change: ${calculatedChange} ${token} = ${changeAmountWei}`);
-      } catch (error: any) {
-        console.error('❌ Failed to query token decimals:', error.message);
-        return res.status(400).json({
-          success: false,
-          error: `Failed to query token decimals: ${error.message}`
-        });
-      }
-    } else {
-      // Native ETH - use 18 decimals
-      inputAmountWei = ethers.parseEther(inputAmount).toString();
-      outputAmountWei = ethers.parseEther(outputAmount).toString();
-      changeAmountWei = ethers.parseEther(calculatedChange).toString();
-
-      console.log('💰 Amount calculations:');
-      console.log(`  Input: ${inputAmount} ETH = ${inputAmountWei} Wei`);
-      console.log(`  Output: ${outputAmount} ETH = ${outputAmountWei} Wei`);
-      console.log(`  Change: ${calculatedChange} ETH = ${changeAmountWei} Wei`);
-    }
+    const changeNote = deriveChangeNote(noteSequence, changeSecret, changeNullifier, changeRandomness);
 
-    // Generate proof
-    console.log('🔐 Generating unshield proof with change support...');
-    const proofResult = await proofGenerator.generateUnshieldProof({
+    const proofInputs = {
       inputAmount: inputAmountWei,
       outputAmount: outputAmountWei,
       changeAmount: changeAmountWei,
@@ -230,30 +495,69 @@ router.post('/unshield', async (req: Request, res: Response) => {
       nullifier,
       randomness,
       inputCommitment,
-      changeSecret,
-      changeNullifier,
-      changeRandomness
-    });
+      ...changeNote,
+      circuitVersion: versionInfo.version,
+      calldata
+    };
+
+    if (runAsync) {
+      return enqueueProofJob(res, chain, 'unshield', proofInputs, { derivation: noteSequence?.describe() ?? null });
+    }
+
+    // Generate proof
+    console.log('🔐 Generating unshield proof with change support...');
+    const proofResult = await proofGenerator.generateUnshieldProof(proofInputs);
 
     console.log('✅ Proof generated successfully');
 
-    // Return the proof data for frontend to submit to blockchain
+    // Without relay the proof is returned for the frontend to submit
+    const relayed = relay
+      ? await relayer.submit(
+          chain.config.chainId,
+          'unshield',
+          proofResult.proof,
+          proofResult.publicSignals,
+          proofResult.circuitVersion
+        )
+      : null;
+
     res.json({
       success: true,
       proof: proofResult.proof,
       publicSignals: proofResult.publicSignals,
+      decodedSignals: proofResult.decodedSignals,
+      recipient: proofResult.recipient,
+      mock: proofResult.mock,
+      circuitVersion: proofResult.circuitVersion,
+      calldata: proofResult.calldata,
+      circuitDeprecation: describeDeprecation(chain, 'unshield', versionInfo),
+      derivation: noteSequence?.describe() ?? null,
       nullifierHash: proofResult.nullifierHash,
       changeCommitment: proofResult.changeCommitment,
       changeSecret: proofResult.changeSecret,
       changeNullifier: proofResult.changeNullifier,
       changeRandomness: proofResult.changeRandomness,
-      changeAmount: calculatedChange, // Return in ether format (e.g., "0.001")
-      chainId: chainId || null,
-      network: network || null,
-      message: 'Unshield proof generated successfully with change support.'
+      changeAmount: describeAmount(amounts.change, decimals).formatted,
+      amounts: {
+        input: describeAmount(amounts.input, decimals),
+        output: describeAmount(amounts.output, decimals),
+        change: describeAmount(amounts.change, decimals)
+      },
+      token: { address: tokenInfo.address, symbol: tokenInfo.symbol, decimals },
+      chainId: chain.config.chainId,
+      network: chain.config.name,
+      relay: relayed,
+      message: proofResult.mock
+        ? 'Mock unshield proof generated for development; it will not verify on chain.'
+        : relayed
+        ? 'Unshield proof generated and submitted by relayer.'
+        : 'Unshield proof generated successfully with change support.'
     });
 
   } catch (error: any) {
+    if (handleInputError(res, error)) {
+      return;
+    }
     console.error('❌ Unshield endpoint error:', error);
     res.status(500).json({
       success: false,
@@ -266,7 +570,10 @@ router.post('/unshield', async (req: Request, res: Response) => {
  * @route POST /api/privacy/transfer
  * @desc Generate proof for private transfer (supports partial amounts)
  */
-router.post('/transfer', async (req: Request, res: Response) => {
+router.post('/transfer', rejectPrivateInputs, resolveChain, validateRequest({ body: transferSchema }), async (req: Request, res: Response) => {
+  const chain: ChainContext = res.locals.chain;
+  const { proofGenerator } = chain;
+
   try {
     const {
       inputCommitment,
@@ -283,11 +590,14 @@ router.post('/transfer', async (req: Request, res: Response) => {
       changeSecret,
       changeNullifier,
       changeRandomness,
-      chainId,
-      network,
+      recipientViewingKey,
       token,
-      tokenAddress
-    } = req.body;
+      tokenAddress,
+      circuitVersion,
+      calldata,
+      relay,
+      async: runAsync
+    }: TransferRequest = res.locals.body;
 
     console.log('📥 Received transfer request:');
     console.log('  Input Amount:', inputAmount);
@@ -296,104 +606,57 @@ router.post('/transfer', async (req: Request, res: Response) => {
     console.log('  Token:', token || 'ETH');
     console.log('  Token Address:', tokenAddress || 'N/A');
     console.log('  Recipient:', recipient);
+    console.log('  Chain:', chain.config.name, `(${chain.config.chainId})`);
 
-    // Validate inputs
-    if (!inputAmount || parseFloat(inputAmount) <= 0) {
-      return res.status(400).json({
-        success: false,
-        error: 'Invalid input amount'
-      });
+    if (await rejectSpentNote(res, chain, inputNullifier, inputRandomness)) {
+      return;
     }
 
-    if (!outputAmount || parseFloat(outputAmount) <= 0) {
-      return res.status(400).json({
-        success: false,
-        error: 'Invalid output amount'
-      });
-    }
+    // Explicit key first, otherwise whatever the recipient address registered
+    const viewingKey = recipientViewingKey || noteDelivery.getViewingKey(recipient)?.viewingPublicKey;
 
-    // Auto-calculate change if not provided
-    const calculatedChange = changeAmount !== undefined
-      ? changeAmount
-      : (parseFloat(inputAmount) - parseFloat(outputAmount)).toString();
+    const versionInfo = resolveCircuitVersion(res, chain, 'transfer', circuitVersion);
+    if (!versionInfo) {
+      return;
+    }
 
-    if (parseFloat(calculatedChange) < 0) {
-      return res.status(400).json({
-        success: false,
-        error: 'Change amount cannot be negative (output > input)'
-      });
+    const noteSequence = resolveNoteSequence(res, res.locals.body);
+    if (noteSequence === null) {
+      return;
     }
 
-    if (!inputSecret || !inputNullifier || !inputRandomness) {
-      return res.status(400).json({
-        success: false,
-        error: 'Missing input commitment details'
-      });
+    if (rejectUnavailableRelay(res, chain, 'transfer', versionInfo.version, relay, runAsync)) {
+      return;
     }
 
-    if (!outputSecret || !outputNullifier || !outputRandomness) {
+    // Only allowlisted tokens; decimals come from the registry instead of a per-request RPC call
+    let tokenInfo: TokenInfo;
+    try {
+      tokenInfo = await tokenRegistry.resolveToken(chain.config.chainId, token, tokenAddress);
+    } catch (error: any) {
+      console.error('❌ Token rejected:', error.message);
       return res.status(400).json({
         success: false,
-        error: 'Missing output commitment details'
+        error: error.message
       });
     }
+    const decimals = tokenInfo.decimals;
 
-    // Convert amounts to Wei based on token decimals
-    let inputAmountWei: string;
-    let outputAmountWei: string;
-    let changeAmountWei: string;
-
-    if (token && token !== 'ETH' && tokenAddress) {
-      // ERC20 token - query contract for decimals
-      console.log('🔍 Querying ERC20 token decimals...');
-      try {
-        const provider = new ethers.JsonRpcProvider(
-          process.env.RPC_URL || 'https://ethereum-sepolia-rpc.publicnode.com'
-        );
-
-        const ERC20_ABI = [
-          'function decimals() view returns (uint8)'
-        ];
+    // Integer base-unit arithmetic; change is derived when omitted
+    const { amountBits } = chain.proofGenerator.resolveCircuitVersion('transfer', versionInfo.version);
+    const amounts = resolveSpendAmounts({ inputAmount, outputAmount, changeAmount }, decimals, amountBits);
+    const inputAmountWei = amounts.input.toString();
+    const outputAmountWei = amounts.output.toString();
+    const changeAmountWei = amounts.change.toString();
 
-        const tokenContract = new ethers.Contract(
-          tokenAddress,
-          ERC20_ABI,
-          provider
-        );
+    console.log('💰 Amount calculations:');
+    console.log(`  Input: ${inputAmount} ${tokenInfo.symbol} = ${inputAmountWei}`);
+    console.log(`  Output: ${outputAmount} ${tokenInfo.symbol} = ${outputAmountWei}`);
+    console.log(`  Change: ${changeAmountWei} base units`);
 
-        const decimals = await tokenContract.decimals();
-        console.log(`  Token decimals: ${decimals}`);
-
-        inputAmountWei = ethers.parseUnits(inputAmount, decimals).toString();
-        outputAmountWei = ethers.parseUnits(outputAmount, decimals).toString();
-        changeAmountWei = ethers.parseUnits(calculatedChange, decimals).toString();
-
-        console.log('💰 Amount calculations:');
-        console.log(`  Input: ${inputAmount} ${token} = ${inputAmountWei}`);
-        console.log(`  Output: ${outputAmount} ${token} = ${outputAmountWei}`);
-        console.log(`  Change: ${calculatedChange} ${token} = ${changeAmountWei}`);
-      } catch (error: any) {
-        console.error('❌ Failed to query token decimals:', error.message);
-        return res.status(400).json({
-          success: false,
-          error: `Failed to query token decimals: ${error.message}`
-        });
-      }
-    } else {
-      // Native ETH - use 18 decimals
-      inputAmountWei = ethers.parseEther(inputAmount).toString();
-      outputAmountWei = ethers.parseEther(outputAmount).toString();
-      changeAmountWei = ethers.parseEther(calculatedChange).toString();
-
-      console.log('💰 Amount calculations:');
-      console.log(`  Input: ${inputAmount} ETH = ${inputAmountWei} Wei`);
-      console.log(`  Output: ${outputAmount} ETH = ${outputAmountWei} Wei`);
-      console.log(`  Change: ${calculatedChange} ETH = ${changeAmountWei} Wei`);
-    }
+    const changeNote = deriveChangeNote(noteSequence, changeSecret, changeNullifier, changeRandomness);
 
-    // Generate proof
-    console.log('🔐 Generating transfer proof with change support...');
-    const proofResult = await proofGenerator.generateTransferProof({
+    const proofInputs = {
       inputCommitment,
       inputAmount: inputAmountWei,
       outputAmount: outputAmountWei,
@@ -405,33 +668,95 @@ router.post('/transfer', async (req: Request, res: Response) => {
       outputSecret,
       outputNullifier,
       outputRandomness,
-      changeSecret,
-      changeNullifier,
-      changeRandomness
-    });
+      ...changeNote,
+      circuitVersion: versionInfo.version,
+      calldata
+    };
+
+    const encryptedNote = viewingKey
+      ? encryptNote({
+          commitment: proofGenerator.generateCommitment(outputSecret, outputNullifier, outputRandomness),
+          secret: outputSecret,
+          nullifier: outputNullifier,
+          randomness: outputRandomness,
+          amount: outputAmountWei,
+          token: tokenInfo.address
+        }, viewingKey)
+      : null;
+
+    if (runAsync) {
+      // Published once the proof exists, as for synchronous requests
+      return enqueueProofJob(
+        res,
+        chain,
+        'transfer',
+        proofInputs,
+        { derivation: noteSequence?.describe() ?? null, encryptedNote },
+        encryptedNote ? () => deliverNote(encryptedNote) : undefined
+      );
+    }
+
+    // Generate proof
+    console.log('🔐 Generating transfer proof with change support...');
+    const proofResult = await proofGenerator.generateTransferProof(proofInputs);
 
     console.log('✅ Proof generated successfully');
 
+    const relayed = relay
+      ? await relayer.submit(
+          chain.config.chainId,
+          'transfer',
+          proofResult.proof,
+          proofResult.publicSignals,
+          proofResult.circuitVersion
+        )
+      : null;
+
+    if (encryptedNote) {
+      deliverNote(encryptedNote);
+    }
+
     res.json({
       success: true,
       proof: proofResult.proof,
       publicSignals: proofResult.publicSignals,
+      decodedSignals: proofResult.decodedSignals,
+      recipient: proofResult.recipient,
+      mock: proofResult.mock,
+      circuitVersion: proofResult.circuitVersion,
+      calldata: proofResult.calldata,
+      circuitDeprecation: describeDeprecation(chain, 'transfer', versionInfo),
+      derivation: noteSequence?.describe() ?? null,
       nullifierHash: proofResult.nullifierHash,
       outputCommitment: proofResult.outputCommitment,
       changeCommitment: proofResult.changeCommitment,
-      outputSecret,
-      outputNullifier,
-      outputRandomness,
+      // The recipient gets the output note's secrets from the encrypted note instead
+      ...(encryptedNote ? {} : { outputSecret, outputNullifier, outputRandomness }),
       changeSecret: proofResult.changeSecret,
       changeNullifier: proofResult.changeNullifier,
       changeRandomness: proofResult.changeRandomness,
-      changeAmount: calculatedChange, // Return in ether format (e.g., "0.001")
-      chainId: chainId || null,
-      network: network || null,
-      message: 'Transfer proof generated successfully with change support.'
+      changeAmount: describeAmount(amounts.change, decimals).formatted,
+      amounts: {
+        input: describeAmount(amounts.input, decimals),
+        output: describeAmount(amounts.output, decimals),
+        change: describeAmount(amounts.change, decimals)
+      },
+      token: { address: tokenInfo.address, symbol: tokenInfo.symbol, decimals },
+      chainId: chain.config.chainId,
+      network: chain.config.name,
+      encryptedNote,
+      relay: relayed,
+      message: proofResult.mock
+        ? 'Mock transfer proof generated for development; it will not verify on chain.'
+        : relayed
+        ? 'Transfer proof generated and submitted by relayer.'
+        : 'Transfer proof generated successfully with change support.'
     });
 
   } catch (error: any) {
+    if (handleInputError(res, error)) {
+      return;
+    }
     console.error('❌ Transfer endpoint error:', error);
     res.status(500).json({
       success: false,
@@ -440,6 +765,125 @@ router.post('/transfer', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * @route POST /api/privacy/verify
+ * @desc Verify one proof ({ circuitType, proof, publicSignals }) or a batch ({ proofs: [...] }) against a chain's keys
+ */
+router.post('/verify', resolveChain, validateRequest({ body: verifySchema }), async (req: Request, res: Response) => {
+  const { config, proofGenerator }: ChainContext = res.locals.chain;
+
+  try {
+    const { proofs, circuitType, circuitVersion, proof, publicSignals }: VerifyRequest = res.locals.body;
+
+    if (proofs !== undefined) {
+      console.log(`📥 Received batch verify request (${proofs.length} proofs)`);
+
+      const results = [];
+      for (const item of proofs) {
+        const result = await proofGenerator.verifyProofDetailed(
+          item.proof,
+          item.publicSignals,
+          item.circuitType,
+          item.circuitVersion
+        );
+        results.push({ circuitType: item.circuitType, ...result });
+      }
+
+      return res.json({
+        success: true,
+        chainId: config.chainId,
+        allValid: results.every(r => r.valid),
+        results
+      });
+    }
+
+    console.log('📥 Received verify request:');
+    console.log('  Circuit:', circuitType);
+    console.log('  Public signals:', publicSignals.length);
+
+    const result = await proofGenerator.verifyProofDetailed(proof, publicSignals, circuitType, circuitVersion);
+
+    console.log(result.valid ? '✅ Proof is valid' : `❌ Proof rejected: ${result.reason}`);
+
+    res.json({
+      success: true,
+      chainId: config.chainId,
+      circuitType,
+      ...result
+    });
+
+  } catch (error: any) {
+    console.error('❌ Verify endpoint error:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Proof verification failed'
+    });
+  }
+});
+
+/**
+ * @route POST /api/privacy/relay
+ * @desc Submit an already generated proof to the chain's pool through the relayer
+ */
+router.post('/relay', resolveChain, validateRequest({ body: relaySchema }), async (req: Request, res: Response) => {
+  const chain: ChainContext = res.locals.chain;
+
+  try {
+    const { circuitType, circuitVersion, proof, publicSignals }: RelayRequest = res.locals.body;
+
+    if (rejectUnavailableRelay(res, chain, circuitType, circuitVersion, true, false)) {
+      return;
+    }
+
+    console.log('📥 Received relay request:');
+    console.log('  Circuit:', circuitType);
+    console.log('  Chain:', chain.config.name, `(${chain.config.chainId})`);
+
+    const relayed = await relayer.submit(chain.config.chainId, circuitType, proof, publicSignals, circuitVersion);
+
+    res.json({
+      success: true,
+      relay: relayed,
+      message: 'Transaction submitted by relayer.'
+    });
+
+  } catch (error: any) {
+    console.error('❌ Relay endpoint error:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Relay submission failed'
+    });
+  }
+});
+
+/**
+ * @route GET /api/privacy/relay/:txHash
+ * @desc Get the status of a relayed transaction
+ */
+router.get('/relay/:txHash', validateRequest({ params: relayStatusParams }), async (req: Request, res: Response) => {
+  try {
+    const relayed = await relayer.getStatus(res.locals.params.txHash);
+
+    if (!relayed) {
+      return res.status(404).json({
+        success: false,
+        error: 'Transaction not submitted by this relayer'
+      });
+    }
+
+    res.json({
+      success: true,
+      relay: relayed
+    });
+
+  } catch (error: any) {
+    res.status(500).json({
+      success: false,
+      error: error.message
+    });
+  }
+});
+
 /**
  * @route GET /api/privacy/health
  * @desc Check if proof generator is ready
@@ -450,8 +894,18 @@ router.get('/health', async (req: Request, res: Response) => {
       success: true,
       status: 'operational',
       message: 'Privacy service is running',
-      circuitsCompiled: false, // Will be true once circuits are compiled
-      poseidonLoaded: true
+      proofMode: proofGenerator.getProofMode(),
+      poseidonLoaded: true,
+      noSecretsMode: proofGenerator.isNoSecretsMode(),
+      relayerEnabled: relayer.isEnabled(),
+      relayerAddress: relayer.getAddress(),
+      relayerChains: relayer.getChainIds(),
+      defaultChainId: chainRegistry.getDefaultChainId(),
+      chains: chainRegistry.list().map(chain => ({
+        chainId: chain.config.chainId,
+        proofMode: chain.proofGenerator.getProofMode()
+      })),
+      proofQueue: proofQueue.getStats()
     });
   } catch (error: any) {
     res.status(500).json({
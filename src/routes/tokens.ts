@@ -0,0 +1,32 @@
+import { Router, Request, Response } from 'express';
+import { tokenRegistry } from '../services/token-registry';
+import { ChainContext } from '../services/chain-registry';
+import { resolveChain } from '../middlewares/chain';
+
+const router = Router();
+
+/**
+ * @route GET /api/privacy/tokens?chainId=
+ * @desc List the tokens supported on a chain (defaults to the service's default chain)
+ */
+router.get('/', resolveChain, async (req: Request, res: Response) => {
+  const { config }: ChainContext = res.locals.chain;
+
+  try {
+    const tokens = await tokenRegistry.listTokens(config.chainId);
+
+    res.json({
+      success: true,
+      chainId: config.chainId,
+      tokens
+    });
+
+  } catch (error: any) {
+    res.status(500).json({
+      success: false,
+      error: error.message
+    });
+  }
+});
+
+export default router;
@@ -0,0 +1,97 @@
+import { Router, Request, Response } from 'express';
+import { ChainContext } from '../services/chain-registry';
+import { MerkleTreeError } from '../services/merkle-tree';
+import { requireAdmin } from '../middlewares/admin-auth';
+import { resolveChain } from '../middlewares/chain';
+import { validateRequest } from '../middlewares/validate';
+import { TreeRebuildRequest, chainQuery, treePathParams, treeRebuildSchema } from '../schemas/privacy';
+
+const router = Router();
+
+/**
+ * @route GET /api/privacy/tree/root?chainId=
+ * @desc Get a chain's current commitment tree root and recent root history
+ */
+router.get('/root', resolveChain, validateRequest({ query: chainQuery }), (req: Request, res: Response) => {
+  const { config, merkleTree }: ChainContext = res.locals.chain;
+
+  res.json({
+    success: true,
+    chainId: config.chainId,
+    root: merkleTree.getRoot(),
+    depth: merkleTree.getDepth(),
+    leafCount: merkleTree.getLeafCount(),
+    recentRoots: merkleTree.getRecentRoots()
+  });
+});
+
+/**
+ * @route GET /api/privacy/tree/path/:commitment?chainId=
+ * @desc Get the Merkle membership path for an indexed commitment
+ */
+router.get(
+  '/path/:commitment',
+  resolveChain,
+  validateRequest({ params: treePathParams, query: chainQuery }),
+  (req: Request, res: Response) => {
+    const { config, merkleTree }: ChainContext = res.locals.chain;
+    const { commitment } = res.locals.params;
+    const merklePath = merkleTree.getPath(commitment);
+
+    if (!merklePath) {
+      return res.status(404).json({
+        success: false,
+        error: 'Commitment not found in tree'
+      });
+    }
+
+    res.json({
+      success: true,
+      chainId: config.chainId,
+      commitment,
+      ...merklePath
+    });
+  }
+);
+
+/**
+ * @route POST /api/privacy/tree/rebuild
+ * @desc Rebuild a chain's tree from a list of deposit events ({ chainId, events: [{ commitment, leafIndex }] })
+ */
+router.post(
+  '/rebuild',
+  requireAdmin,
+  resolveChain,
+  validateRequest({ body: treeRebuildSchema }),
+  (req: Request, res: Response) => {
+    const { config, merkleTree }: ChainContext = res.locals.chain;
+    const { events }: TreeRebuildRequest = res.locals.body;
+
+    try {
+      merkleTree.rebuildFromEvents(events);
+
+      res.json({
+        success: true,
+        chainId: config.chainId,
+        root: merkleTree.getRoot(),
+        leafCount: merkleTree.getLeafCount()
+      });
+
+    } catch (error: any) {
+      if (error instanceof MerkleTreeError) {
+        return res.status(400).json({
+          success: false,
+          error: error.message
+        });
+      }
+
+      console.error('❌ Tree rebuild error:', error);
+      res.status(500).json({
+        success: false,
+        error: error.message || 'Tree rebuild failed'
+      });
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,51 @@
+import { Router, Request, Response } from 'express';
+import { noteDelivery } from '../services/note-delivery';
+import { validateRequest } from '../middlewares/validate';
+import { ViewingKeyRequest, viewingKeyParams, viewingKeySchema } from '../schemas/privacy';
+
+const router = Router();
+
+/**
+ * @route POST /api/privacy/viewing-keys
+ * @desc Register a viewing public key ({ address, viewingPublicKey, signature })
+ */
+router.post('/', validateRequest({ body: viewingKeySchema }), (req: Request, res: Response) => {
+  const { address, viewingPublicKey, signature }: ViewingKeyRequest = res.locals.body;
+
+  try {
+    const record = noteDelivery.registerViewingKey(address, viewingPublicKey, signature);
+
+    res.json({
+      success: true,
+      ...record
+    });
+
+  } catch (error: any) {
+    res.status(400).json({
+      success: false,
+      error: error.message || 'Viewing key registration failed'
+    });
+  }
+});
+
+/**
+ * @route GET /api/privacy/viewing-keys/:address
+ * @desc Get the viewing public key registered for an address
+ */
+router.get('/:address', validateRequest({ params: viewingKeyParams }), (req: Request, res: Response) => {
+  const record = noteDelivery.getViewingKey(res.locals.params.address);
+
+  if (!record) {
+    return res.status(404).json({
+      success: false,
+      error: 'No viewing key registered for this address'
+    });
+  }
+
+  res.json({
+    success: true,
+    ...record
+  });
+});
+
+export default router;
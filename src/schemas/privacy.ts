@@ -0,0 +1,352 @@
+import { CIRCUIT_TYPES } from '../services/proof-generator';
+import { DISCLOSURE_VERSION } from '../services/disclosure';
+import { VERSION_PATTERN } from '../services/circuit-manifest';
+import { RELAYABLE_CIRCUITS } from '../services/relayer';
+import { FIELD_ELEMENT_PATTERN } from '../utils/field';
+import { NOTE_ENCRYPTION_VERSION } from '../utils/note-encryption';
+import { Infer, fields, objectSchema } from '../utils/schema';
+
+/**
+ * Request schemas for the privacy routes (src/routes/privacy.ts)
+ */
+
+export const MAX_VERIFY_BATCH = 20;
+export const MAX_BALANCE_NOTES = 500;
+export const MAX_NOTE_PAGE = 1000;
+
+// Every route accepts a chain selector (see middlewares/chain)
+const chainSelector = {
+  chainId: fields.integer({ min: 1 }).optional().describe('Chain to use (default chain when omitted)'),
+  network: fields.string().optional().describe('Chain name, alternative to chainId')
+};
+
+const proofOptions = {
+  token: fields.string({ maxLength: 32 }).optional().describe('Token symbol (default ETH)'),
+  tokenAddress: fields.address().optional(),
+  circuitVersion: fields.string({ pattern: VERSION_PATTERN }).optional().describe('Circuit version (default latest)'),
+  calldata: fields.boolean().optional().describe('Also return the proof formatted for the Solidity verifier'),
+  relay: fields.boolean().optional().describe('Submit the proof through the relayer (unshield and transfer only)'),
+  async: fields.boolean().optional().describe('Queue the proof and return a job ID'),
+  spendingKey: fields.hex(32, 'a 32-byte hex spending key').optional()
+    .describe('Derive the secrets of notes this request creates from this key (docs/note-derivation.md)'),
+  noteIndex: fields.integer({ min: 0 }).optional().describe('Index of the first derived note; required with spendingKey'),
+  derivationVersion: fields.integer({ min: 1 }).optional().describe('Note derivation scheme version (default latest)')
+};
+
+const optionalSecret = () => fields.fieldElement().optional();
+
+export const shieldSchema = objectSchema({
+  ...chainSelector,
+  ...proofOptions,
+  amount: fields.amount(),
+  recipient: fields.address().optional()
+});
+
+export const unshieldSchema = objectSchema({
+  ...chainSelector,
+  ...proofOptions,
+  inputAmount: fields.amount(),
+  outputAmount: fields.amount(),
+  changeAmount: fields.amount().optional().describe('Derived as inputAmount - outputAmount when omitted'),
+  recipient: fields.address().describe('Address the withdrawn funds are paid to (must not be the zero address)'),
+  secret: fields.fieldElement(),
+  nullifier: fields.fieldElement(),
+  randomness: fields.fieldElement(),
+  inputCommitment: optionalSecret(),
+  changeSecret: optionalSecret(),
+  changeNullifier: optionalSecret(),
+  changeRandomness: optionalSecret()
+});
+
+export const transferSchema = objectSchema({
+  ...chainSelector,
+  ...proofOptions,
+  inputAmount: fields.amount(),
+  outputAmount: fields.amount(),
+  changeAmount: fields.amount().optional().describe('Derived as inputAmount - outputAmount when omitted'),
+  recipient: fields.address().optional(),
+  recipientViewingKey: fields.hex(32, 'a 32-byte hex X25519 public key').optional(),
+  inputCommitment: optionalSecret(),
+  inputSecret: fields.fieldElement(),
+  inputNullifier: fields.fieldElement(),
+  inputRandomness: fields.fieldElement(),
+  outputSecret: fields.fieldElement(),
+  outputNullifier: fields.fieldElement(),
+  outputRandomness: fields.fieldElement(),
+  changeSecret: optionalSecret(),
+  changeNullifier: optionalSecret(),
+  changeRandomness: optionalSecret()
+});
+
+// Proof and signal contents are checked by the verifier, which reports why a proof was rejected
+const submittedProof = {
+  circuitType: fields.enumOf(CIRCUIT_TYPES),
+  circuitVersion: fields.string({ pattern: VERSION_PATTERN }).optional().describe('Circuit version (default latest)'),
+  proof: fields.json('Groth16 proof (pi_a, pi_b, pi_c)'),
+  publicSignals: fields.array(fields.string())
+};
+
+const verifyItemSchema = objectSchema(submittedProof);
+
+export const verifySchema = objectSchema({
+  ...chainSelector,
+  circuitType: submittedProof.circuitType.optional(),
+  circuitVersion: submittedProof.circuitVersion,
+  proof: submittedProof.proof.optional(),
+  publicSignals: submittedProof.publicSignals.optional(),
+  proofs: fields.array(fields.object(verifyItemSchema), { min: 1, max: MAX_VERIFY_BATCH })
+    .optional()
+    .describe('Batch of proofs; replaces the single-proof fields')
+}, value => {
+  if (value.proofs !== undefined) {
+    return [];
+  }
+  return ['circuitType', 'proof', 'publicSignals']
+    .filter(key => value[key as keyof typeof value] === undefined)
+    .map(key => ({ field: key, message: 'is required unless proofs is given' }));
+});
+
+export const relaySchema = objectSchema({
+  ...chainSelector,
+  ...submittedProof,
+  circuitType: fields.enumOf(RELAYABLE_CIRCUITS).describe('Spend proofs only; shields are submitted by the depositor'),
+  publicSignals: fields.array(fields.fieldElement())
+});
+
+export const feeQuoteQuery = objectSchema({
+  ...chainSelector,
+  token: proofOptions.token,
+  tokenAddress: proofOptions.tokenAddress,
+  circuitType: fields.enumOf(RELAYABLE_CIRCUITS).optional().describe('Proof to relay (default unshield)')
+});
+
+export const relayStatusParams = objectSchema({
+  txHash: fields.hex(32, 'a 32-byte 0x-prefixed transaction hash')
+});
+
+// A note is identified by its secrets, or (in no-secrets mode) by its commitment and nullifier hash
+const balanceNoteSchema = objectSchema({
+  token: proofOptions.token,
+  tokenAddress: proofOptions.tokenAddress,
+  amount: fields.amount(),
+  secret: optionalSecret(),
+  nullifier: optionalSecret(),
+  randomness: optionalSecret(),
+  commitment: optionalSecret().describe('Required unless secret, nullifier and randomness are given'),
+  nullifierHash: optionalSecret().describe('Required unless nullifier and randomness are given')
+}, value => {
+  const missing = new Map<string, string>();
+  if (value.nullifierHash === undefined) {
+    ['nullifier', 'randomness'].forEach(key => missing.set(key, 'is required unless nullifierHash is given'));
+  }
+  if (value.commitment === undefined) {
+    ['secret', 'nullifier', 'randomness'].forEach(key => missing.set(key, 'is required unless commitment is given'));
+  }
+  return [...missing]
+    .filter(([key]) => value[key as keyof typeof value] === undefined)
+    .map(([field, message]) => ({ field, message }));
+});
+
+export const balanceSchema = objectSchema({
+  ...chainSelector,
+  notes: fields.array(fields.object(balanceNoteSchema), { max: MAX_BALANCE_NOTES }).optional()
+    .describe('Notes the wallet holds'),
+  viewingKey: fields.hex(32, 'a 32-byte hex X25519 private key').optional()
+    .describe('Viewing private key; notes delivered to it within the scanned page of the note log are included'),
+  from: fields.integer({ min: 0 }).optional().describe('With viewingKey, index of the first delivered note to scan (default 0)'),
+  limit: fields.integer({ min: 1, max: MAX_NOTE_PAGE }).optional()
+    .describe(`With viewingKey, delivered notes to scan (default ${MAX_NOTE_PAGE})`)
+}, value => value.notes === undefined && value.viewingKey === undefined
+  ? [{ field: 'notes', message: 'is required unless viewingKey is given' }]
+  : []
+);
+
+export const commitmentStatusParams = objectSchema({
+  commitment: fields.fieldElement().describe('Note commitment (decimal or 0x-hex)')
+});
+
+export const commitmentStatusQuery = objectSchema({
+  ...chainSelector,
+  nullifierHash: fields.fieldElement().optional().describe("The note's nullifier hash, to learn whether it has been spent")
+});
+
+export const chainQuery = objectSchema(chainSelector);
+
+export const treePathParams = objectSchema({
+  commitment: fields.fieldElement().describe('Note commitment (decimal or 0x-hex)')
+});
+
+export const treeRebuildSchema = objectSchema({
+  ...chainSelector,
+  events: fields.array(fields.object(objectSchema({
+    commitment: fields.fieldElement(),
+    leafIndex: fields.integer({ min: 0 })
+  }))).describe('Deposit events; leaf indices must be contiguous from 0')
+});
+
+// Admin syncs take an optional chain; without one every indexed chain is synced
+export const syncSchema = objectSchema(chainSelector);
+
+export const nullifierParams = objectSchema({
+  hash: fields.fieldElement().describe('Nullifier hash (decimal or 0x-hex)')
+});
+
+export const notePageQuery = objectSchema({
+  from: fields.integer({ min: 0 }).optional().describe('Index of the first note (default 0)'),
+  limit: fields.integer({ min: 1, max: MAX_NOTE_PAGE }).optional().describe(`Notes per page (default ${MAX_NOTE_PAGE})`)
+});
+
+// Mirrors EncryptedNote (src/utils/note-encryption.ts); the commitment is kept as sent because it is the AAD
+const encryptedNoteSchema = objectSchema({
+  version: fields.integer({ min: 1 }),
+  commitment: fields.string({ pattern: FIELD_ELEMENT_PATTERN, maxLength: 80 }),
+  viewTag: fields.string({ pattern: /^[0-9a-f]{2}$/ }),
+  ephemeralPublicKey: fields.hex(32, 'a 32-byte hex X25519 public key'),
+  nonce: fields.string({ pattern: /^0x[0-9a-fA-F]{24}$/ }),
+  ciphertext: fields.string({ pattern: /^0x[0-9a-fA-F]{34,}$/ })
+}, value => value.version === NOTE_ENCRYPTION_VERSION
+  ? []
+  : [{ field: 'version', message: `must be ${NOTE_ENCRYPTION_VERSION}` }]
+);
+
+export const publishNoteSchema = objectSchema({
+  encryptedNote: fields.object(encryptedNoteSchema).describe('Note encrypted to the recipient (docs/note-encryption.md)')
+});
+
+export const viewingKeySchema = objectSchema({
+  address: fields.address(),
+  viewingPublicKey: fields.hex(32, 'a 32-byte hex X25519 public key'),
+  signature: fields.hex(65, 'a 65-byte hex signature')
+    .describe('personal_sign by address of "Register Veilon viewing key: <viewingPublicKey, lowercase>"')
+});
+
+export const viewingKeyParams = objectSchema({
+  address: fields.address()
+});
+
+export const jobParams = objectSchema({
+  id: fields.string({ pattern: /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/, description: 'Job ID' })
+});
+
+export const jobTokenQuery = objectSchema({
+  token: fields.hex(32, 'a 32-byte hex job access token').optional()
+    .describe("The job's accessToken from the queueing response, when not sent as the x-job-token header")
+});
+
+export const CIRCUIT_ARTIFACTS = ['wasm', 'zkey', 'vkey'] as const;
+
+export const circuitQuery = objectSchema({
+  ...chainSelector,
+  version: fields.string({ pattern: VERSION_PATTERN }).optional().describe('Circuit version (default latest)')
+});
+
+export const circuitParams = objectSchema({
+  circuitType: fields.enumOf(CIRCUIT_TYPES)
+});
+
+export const circuitArtifactParams = objectSchema({
+  circuitType: fields.enumOf(CIRCUIT_TYPES),
+  artifact: fields.enumOf(CIRCUIT_ARTIFACTS)
+});
+
+// Admin circuit reloads take the chain to reload (default chain when omitted)
+export const circuitReloadSchema = objectSchema(chainSelector);
+
+export const disclosureSchema = objectSchema({
+  ...chainSelector,
+  token: proofOptions.token,
+  tokenAddress: proofOptions.tokenAddress,
+  secret: fields.fieldElement(),
+  nullifier: fields.fieldElement(),
+  randomness: fields.fieldElement(),
+  destination: fields.address().optional()
+    .describe("Address the note's spend paid out to; checked against the spend when this relayer submitted it"),
+  auditorViewingKey: fields.hex(32, 'a 32-byte hex X25519 public key').optional()
+    .describe("Auditor's viewing public key; the signed report is also returned encrypted to it")
+});
+
+const disclosedTransaction = objectSchema({
+  txHash: fields.hex(32, 'a 32-byte 0x-prefixed transaction hash').optional(),
+  blockNumber: fields.integer({ min: 0 }).optional()
+});
+
+// Mirrors DisclosureReport (src/services/disclosure.ts); see docs/disclosure.md
+const disclosureReportSchema = objectSchema({
+  version: fields.integer({ min: 1 }),
+  chainId: fields.integer({ min: 1 }),
+  commitment: fields.fieldElement(),
+  nullifierHash: fields.fieldElement(),
+  token: fields.object(objectSchema({
+    address: fields.address(),
+    symbol: fields.string({ maxLength: 32 }),
+    decimals: fields.integer({ min: 0 })
+  })),
+  opening: fields.object(objectSchema({
+    nullifier: fields.fieldElement(),
+    randomness: fields.fieldElement(),
+    secret: optionalSecret().describe('Disclosed only once the note is spent')
+  })),
+  deposit: fields.object(disclosedTransaction).optional(),
+  spend: fields.object(disclosedTransaction).optional(),
+  destination: fields.object(objectSchema({
+    address: fields.address(),
+    source: fields.enumOf(['relayer', 'declared'] as const)
+  })).optional(),
+  issuer: fields.address(),
+  issuedAt: fields.string({ maxLength: 64 })
+}, value => value.version === DISCLOSURE_VERSION
+  ? []
+  : [{ field: 'version', message: `must be ${DISCLOSURE_VERSION}` }]
+);
+
+export const signedDisclosureSchema = objectSchema({
+  report: fields.object(disclosureReportSchema),
+  signature: fields.hex(65, 'a 65-byte hex signature')
+});
+
+const encryptedDisclosureSchema = objectSchema({
+  version: fields.integer({ min: 1 }),
+  commitment: fields.fieldElement(),
+  ephemeralPublicKey: fields.hex(32, 'a 32-byte hex X25519 public key'),
+  nonce: fields.hex(12, 'a 12-byte hex nonce'),
+  ciphertext: fields.string({ pattern: /^0x[0-9a-fA-F]{34,}$/ })
+}, value => value.version === DISCLOSURE_VERSION
+  ? []
+  : [{ field: 'version', message: `must be ${DISCLOSURE_VERSION}` }]
+);
+
+export const verifyDisclosureSchema = objectSchema({
+  report: signedDisclosureSchema.shape.report.optional(),
+  signature: signedDisclosureSchema.shape.signature.optional(),
+  encryptedReport: fields.object(encryptedDisclosureSchema).optional()
+    .describe('Signed report encrypted to an auditor; replaces report and signature'),
+  viewingKey: fields.hex(32, 'a 32-byte hex X25519 private key').optional()
+    .describe("Auditor's viewing private key, to decrypt encryptedReport")
+}, value => {
+  if (value.encryptedReport !== undefined) {
+    return value.viewingKey === undefined ? [{ field: 'viewingKey', message: 'is required with encryptedReport' }] : [];
+  }
+  return ['report', 'signature']
+    .filter(key => value[key as keyof typeof value] === undefined)
+    .map(key => ({ field: key, message: 'is required unless encryptedReport is given' }));
+});
+
+export type ShieldRequest = Infer<typeof shieldSchema.shape>;
+export type UnshieldRequest = Infer<typeof unshieldSchema.shape>;
+export type TransferRequest = Infer<typeof transferSchema.shape>;
+export type VerifyRequest = Infer<typeof verifySchema.shape>;
+export type RelayRequest = Infer<typeof relaySchema.shape>;
+export type FeeQuoteQuery = Infer<typeof feeQuoteQuery.shape>;
+export type BalanceRequest = Infer<typeof balanceSchema.shape>;
+export type CommitmentStatusQuery = Infer<typeof commitmentStatusQuery.shape>;
+export type SyncRequest = Infer<typeof syncSchema.shape>;
+export type NotePageQuery = Infer<typeof notePageQuery.shape>;
+export type PublishNoteRequest = Infer<typeof publishNoteSchema.shape>;
+export type ViewingKeyRequest = Infer<typeof viewingKeySchema.shape>;
+export type TreeRebuildRequest = Infer<typeof treeRebuildSchema.shape>;
+export type JobTokenQuery = Infer<typeof jobTokenQuery.shape>;
+export type CircuitQuery = Infer<typeof circuitQuery.shape>;
+export type CircuitArtifactParams = Infer<typeof circuitArtifactParams.shape>;
+export type DisclosureRequest = Infer<typeof disclosureSchema.shape>;
+export type SignedDisclosureRequest = Infer<typeof signedDisclosureSchema.shape>;
+export type VerifyDisclosureRequest = Infer<typeof verifyDisclosureSchema.shape>;
@@ -0,0 +1,215 @@
+import { ObjectSchema, Shape } from '../utils/schema';
+import {
+  balanceSchema,
+  chainQuery,
+  circuitArtifactParams,
+  circuitParams,
+  circuitQuery,
+  circuitReloadSchema,
+  commitmentStatusParams,
+  commitmentStatusQuery,
+  disclosureSchema,
+  feeQuoteQuery,
+  jobParams,
+  jobTokenQuery,
+  notePageQuery,
+  nullifierParams,
+  publishNoteSchema,
+  relaySchema,
+  relayStatusParams,
+  shieldSchema,
+  syncSchema,
+  transferSchema,
+  treePathParams,
+  treeRebuildSchema,
+  unshieldSchema,
+  verifyDisclosureSchema,
+  verifySchema,
+  viewingKeyParams,
+  viewingKeySchema
+} from './privacy';
+
+/**
+ * Documented API routes; the OpenAPI document at /api/docs/openapi.json is generated from this list
+ */
+
+export interface RouteDoc {
+  method: 'get' | 'post';
+  path: string;  // Express-style, e.g. /api/privacy/relay/:txHash
+  summary: string;
+  body?: ObjectSchema<Shape>;
+  query?: ObjectSchema<Shape>;
+  params?: ObjectSchema<Shape>;
+}
+
+export const API_ROUTES: RouteDoc[] = [
+  {
+    method: 'post',
+    path: '/api/privacy/shield',
+    summary: 'Generate a shield proof for a new note',
+    body: shieldSchema
+  },
+  {
+    method: 'post',
+    path: '/api/privacy/unshield',
+    summary: 'Generate an unshield proof (partial amounts with change)',
+    body: unshieldSchema
+  },
+  {
+    method: 'post',
+    path: '/api/privacy/transfer',
+    summary: 'Generate a private transfer proof (partial amounts with change)',
+    body: transferSchema
+  },
+  {
+    method: 'post',
+    path: '/api/privacy/verify',
+    summary: "Verify one proof or a batch against a chain's verification keys",
+    body: verifySchema
+  },
+  {
+    method: 'post',
+    path: '/api/privacy/relay',
+    summary: "Submit an already generated unshield or transfer proof to the chain's pool through the relayer",
+    body: relaySchema
+  },
+  {
+    method: 'get',
+    path: '/api/privacy/relay/:txHash',
+    summary: 'Status of a relayed transaction',
+    params: relayStatusParams
+  },
+  {
+    method: 'get',
+    path: '/api/privacy/jobs/:id',
+    summary: "Status of a queued proof job, with its result once done (the submitter's access token is required)",
+    params: jobParams,
+    query: jobTokenQuery
+  },
+  {
+    method: 'get',
+    path: '/api/privacy/jobs/:id/events',
+    summary: "Server-Sent Events stream of a proof job's progress until it is done or failed",
+    params: jobParams,
+    query: jobTokenQuery
+  },
+  {
+    method: 'get',
+    path: '/api/privacy/circuits',
+    summary: "A chain's circuit versions with artifact hashes, sizes and download URLs for client-side proving",
+    query: chainQuery
+  },
+  {
+    method: 'post',
+    path: '/api/privacy/circuits/reload',
+    summary: "Reload a chain's circuit manifest and artifacts without restarting (admin; the old set stays on failure)",
+    body: circuitReloadSchema
+  },
+  {
+    method: 'get',
+    path: '/api/privacy/circuits/:circuitType/verifier.sol',
+    summary: 'Solidity verifier contract for a circuit version (default latest)',
+    params: circuitParams,
+    query: circuitQuery
+  },
+  {
+    method: 'get',
+    path: '/api/privacy/circuits/:circuitType/:artifact',
+    summary: "Download a circuit version's wasm, zkey or verification key (default latest)",
+    params: circuitArtifactParams,
+    query: circuitQuery
+  },
+  {
+    method: 'get',
+    path: '/api/privacy/fee',
+    summary: 'Quote the cost of relaying an unshield or transfer proof, in the note token (not bound into the proof)',
+    query: feeQuoteQuery
+  },
+  {
+    method: 'get',
+    path: '/api/privacy/commitments/:commitment',
+    summary: 'Indexing status of a note commitment on a chain (pending, confirmed or spent)',
+    params: commitmentStatusParams,
+    query: commitmentStatusQuery
+  },
+  {
+    method: 'post',
+    path: '/api/privacy/commitments/sync',
+    summary: 'Index new pool events on one chain, or every indexed chain when none is given (admin)',
+    body: syncSchema
+  },
+  {
+    method: 'get',
+    path: '/api/privacy/tree/root',
+    summary: "A chain's commitment tree root, depth, leaf count and recent roots",
+    query: chainQuery
+  },
+  {
+    method: 'get',
+    path: '/api/privacy/tree/path/:commitment',
+    summary: 'Merkle membership path for an indexed commitment',
+    params: treePathParams,
+    query: chainQuery
+  },
+  {
+    method: 'post',
+    path: '/api/privacy/tree/rebuild',
+    summary: "Rebuild a chain's commitment tree from deposit events (admin; the tree is unchanged if they are rejected)",
+    body: treeRebuildSchema
+  },
+  {
+    method: 'post',
+    path: '/api/privacy/nullifiers/sync',
+    summary: "Import spent nullifiers from a pool's events on one chain, or every chain with a pool (admin)",
+    body: syncSchema
+  },
+  {
+    method: 'get',
+    path: '/api/privacy/nullifiers/:hash',
+    summary: 'Whether a nullifier hash has been spent on a chain (spends count once INDEXER_CONFIRMATIONS deep)',
+    params: nullifierParams,
+    query: chainQuery
+  },
+  {
+    method: 'get',
+    path: '/api/privacy/notes',
+    summary: 'Page through published encrypted notes, oldest first',
+    query: notePageQuery
+  },
+  {
+    method: 'post',
+    path: '/api/privacy/notes',
+    summary: 'Publish a note the client encrypted to its recipient',
+    body: publishNoteSchema
+  },
+  {
+    method: 'post',
+    path: '/api/privacy/viewing-keys',
+    summary: 'Register the viewing public key notes to an address are encrypted to',
+    body: viewingKeySchema
+  },
+  {
+    method: 'get',
+    path: '/api/privacy/viewing-keys/:address',
+    summary: 'Viewing public key registered for an address',
+    params: viewingKeyParams
+  },
+  {
+    method: 'post',
+    path: '/api/privacy/balance',
+    summary: 'Shielded balance per token, with each note unspent, unconfirmed or spent (notes and/or a page of a viewing key scan)',
+    body: balanceSchema
+  },
+  {
+    method: 'post',
+    path: '/api/privacy/disclosures',
+    summary: "Issue a signed selective disclosure report for one note, optionally encrypted to an auditor's viewing key",
+    body: disclosureSchema
+  },
+  {
+    method: 'post',
+    path: '/api/privacy/disclosures/verify',
+    summary: "Check a disclosure report's signature, commitment and nullifier hashes, and chain data",
+    body: verifyDisclosureSchema
+  }
+];
@@ -4,7 +4,27 @@ import helmet from "helmet";
 import morgan from "morgan";
 import dotenv from "dotenv";
 import privacyRoutes from "./routes/privacy";
-import { proofGenerator } from "./services/proof-generator";
+import jobRoutes from "./routes/jobs";
+import treeRoutes from "./routes/tree";
+import nullifierRoutes from "./routes/nullifiers";
+import circuitRoutes from "./routes/circuits";
+import viewingKeyRoutes from "./routes/viewing-keys";
+import noteRoutes from "./routes/notes";
+import tokenRoutes from "./routes/tokens";
+import chainRoutes from "./routes/chains";
+import docsRoutes from "./routes/docs";
+import feeRoutes from "./routes/fees";
+import commitmentRoutes from "./routes/commitments";
+import balanceRoutes from "./routes/balance";
+import disclosureRoutes from "./routes/disclosures";
+import { proofGenerator, CIRCUIT_TYPES } from "./services/proof-generator";
+import { relayer } from "./services/relayer";
+import { nullifierRegistry } from "./services/nullifier-registry";
+import { eventIndexer } from "./services/event-indexer";
+import { noteDelivery } from "./services/note-delivery";
+import { disclosures } from "./services/disclosure";
+import { tokenRegistry } from "./services/token-registry";
+import { chainRegistry } from "./services/chain-registry";
 
 // Load environment variables
 dotenv.config();
@@ -28,7 +48,20 @@ app.get("/health", (req: Request, res: Response) => {
 });
 
 // API routes
+app.use("/api/privacy/jobs", jobRoutes);
+app.use("/api/privacy/tree", treeRoutes);
+app.use("/api/privacy/nullifiers", nullifierRoutes);
+app.use("/api/privacy/circuits", circuitRoutes);
+app.use("/api/privacy/viewing-keys", viewingKeyRoutes);
+app.use("/api/privacy/notes", noteRoutes);
+app.use("/api/privacy/tokens", tokenRoutes);
+app.use("/api/privacy/chains", chainRoutes);
+app.use("/api/privacy/fee", feeRoutes);
+app.use("/api/privacy/commitments", commitmentRoutes);
+app.use("/api/privacy/balance", balanceRoutes);
+app.use("/api/privacy/disclosures", disclosureRoutes);
 app.use("/api/privacy", privacyRoutes);
+app.use("/api/docs", docsRoutes);
 
 // 404 handler
 app.use((req: Request, res: Response) => {
@@ -55,6 +88,27 @@ async function startServer() {
     // Initialize proof generator
     await proofGenerator.initialize();
 
+    // Load the chain config (RPC providers, pools, per-chain circuits and commitment trees)
+    await chainRegistry.initialize();
+
+    // Load each chain's token allowlist
+    await tokenRegistry.initialize();
+
+    // Load spent nullifiers (and start event sync if configured)
+    await nullifierRegistry.initialize();
+
+    // Load the pool event index (and start polling if configured)
+    await eventIndexer.initialize();
+
+    // Load viewing keys and encrypted notes
+    await noteDelivery.initialize();
+
+    // Load relayed transactions; the wallet is only connected when RELAYER_ENABLED=true
+    await relayer.initialize();
+
+    // Load the disclosure signing key (reports can only be verified without it)
+    await disclosures.initialize();
+
     // Start listening
     app.listen(PORT, () => {
       console.log("");
@@ -68,14 +122,40 @@ async function startServer() {
       console.log(
         `🔓 Unshield: POST http://localhost:${PORT}/api/privacy/unshield`
       );
-      console.log("");
       console.log(
-        "💡 Tip: Circuits are not compiled yet. Using mock proofs for development."
+        `⛓️  Chains: GET http://localhost:${PORT}/api/privacy/chains`
       );
       console.log(
-        "   Run `bash scripts/compile-circuits.sh` to compile real circuits."
+        `📖 API docs: GET http://localhost:${PORT}/api/docs/openapi.json`
       );
+      if (proofGenerator.isNoSecretsMode()) {
+        console.log(
+          "🔒 No-secrets mode: server-side proving disabled, clients prove locally."
+        );
+      }
+      if (relayer.isEnabled()) {
+        console.log(
+          `📤 Relay: POST http://localhost:${PORT}/api/privacy/relay`
+        );
+        console.log(
+          `💸 Fee quotes: GET http://localhost:${PORT}/api/privacy/fee?chainId=&token=`
+        );
+      }
       console.log("");
+      const mockChains = chainRegistry
+        .list()
+        .filter((chain) =>
+          CIRCUIT_TYPES.some((circuitType) => chain.proofGenerator.isMockCircuit(circuitType))
+        );
+      if (mockChains.length > 0) {
+        console.log(
+          `💡 Tip: Mock proofs are served on ${mockChains.map((chain) => chain.config.name).join(", ")} (PROOF_MODE=${proofGenerator.getProofMode().configured}).`
+        );
+        console.log(
+          "   Run `bash scripts/compile-circuits.sh` and set PROOF_MODE=real for production."
+        );
+        console.log("");
+      }
     });
   } catch (error) {
     console.error("❌ Failed to start server:", error);
@@ -0,0 +1,230 @@
+import { ethers } from 'ethers';
+import * as fs from 'fs';
+import * as path from 'path';
+import { ProofGeneratorService, proofGenerator } from './proof-generator';
+import { MerkleTreeService } from './merkle-tree';
+import type { TokenConfig } from './token-registry';
+
+/**
+ * Chain Registry Service
+ * Loads the per-chain configuration (RPC endpoints, pool contract, tokens, circuits) and owns the
+ * provider, proof generator and commitment tree for each chain
+ *
+ * Configured through:
+ *   CHAINS_CONFIG_FILE - chain configuration (default config/chains.json)
+ *
+ * String values in the file may reference environment variables as ${NAME}; RPC URLs that resolve to an
+ * empty string are skipped and an empty poolAddress means no pool is deployed on that chain.
+ */
+
+const PROJECT_ROOT = path.resolve(__dirname, '../..');
+
+export interface ChainConfig {
+  chainId: number;
+  name: string;
+  rpcUrls: string[];
+  poolAddress: string | null;
+  deploymentBlock: number;
+  circuitsPath: string;
+  tokens: TokenConfig[];
+}
+
+export interface ChainContext {
+  config: ChainConfig;
+  provider: ethers.AbstractProvider;
+  proofGenerator: ProofGeneratorService;
+  merkleTree: MerkleTreeService;
+}
+
+export class UnknownChainError extends Error {
+  constructor(chain: string | number) {
+    super(`Unsupported chain: ${chain}`);
+    this.name = 'UnknownChainError';
+  }
+}
+
+function interpolateEnv(value: any): any {
+  if (typeof value === 'string') {
+    return value.replace(/\$\{(\w+)\}/g, (_, name) => process.env[name] || '');
+  }
+  if (Array.isArray(value)) {
+    return value.map(interpolateEnv);
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, interpolateEnv(v)]));
+  }
+  return value;
+}
+
+export class ChainRegistryService {
+  private filePath: string;
+  private defaultChainId!: number;
+  private chains: Map<number, ChainContext> = new Map();
+
+  constructor() {
+    this.filePath = path.resolve(
+      process.env.CHAINS_CONFIG_FILE || path.join(PROJECT_ROOT, 'config/chains.json')
+    );
+  }
+
+  /**
+   * Initialize the service (loads and validates the chain config, then sets up each chain)
+   */
+  async initialize(): Promise<void> {
+    console.log('🔧 Initializing ChainRegistryService...');
+
+    if (!fs.existsSync(this.filePath)) {
+      throw new Error(`Chain config not found: ${this.filePath}`);
+    }
+
+    const raw = interpolateEnv(JSON.parse(fs.readFileSync(this.filePath, 'utf-8')));
+    const configs = (raw.chains || []).map((chain: any) => this.validate(chain));
+
+    if (configs.length === 0) {
+      throw new Error('Chain config must define at least one chain');
+    }
+
+    // Chains sharing a circuits directory share one proof generator
+    const generators = new Map<string, ProofGeneratorService>([
+      [proofGenerator.getCircuitsPath(), proofGenerator]
+    ]);
+
+    for (const config of configs as ChainConfig[]) {
+      if (this.chains.has(config.chainId)) {
+        throw new Error(`Duplicate chain ${config.chainId} in chain config`);
+      }
+
+      let generator = generators.get(config.circuitsPath);
+      if (!generator) {
+        generator = new ProofGeneratorService(config.circuitsPath);
+        await generator.initialize();
+        generators.set(config.circuitsPath, generator);
+      }
+
+      const merkleTree = new MerkleTreeService(config.chainId);
+      await merkleTree.initialize();
+
+      this.chains.set(config.chainId, {
+        config,
+        provider: this.buildProvider(config),
+        proofGenerator: generator,
+        merkleTree
+      });
+
+      console.log(
+        `  ⛓️  ${config.name} (${config.chainId}): ${config.rpcUrls.length} RPC endpoints, ` +
+        `pool ${config.poolAddress || 'not deployed'}, ${config.tokens.length} tokens`
+      );
+    }
+
+    this.defaultChainId = Number(raw.defaultChainId ?? configs[0].chainId);
+    if (!this.chains.has(this.defaultChainId)) {
+      throw new Error(`defaultChainId ${this.defaultChainId} is not a configured chain`);
+    }
+
+    console.log(`✅ Chain registry loaded (${this.chains.size} chains, default ${this.defaultChainId})`);
+  }
+
+  private validate(chain: any): ChainConfig {
+    const label = chain?.name || chain?.chainId || 'unnamed chain';
+
+    if (!Number.isInteger(chain.chainId) || chain.chainId <= 0) {
+      throw new Error(`Invalid chainId for ${label}`);
+    }
+
+    if (typeof chain.name !== 'string' || !chain.name) {
+      throw new Error(`Chain ${chain.chainId} needs a name`);
+    }
+
+    const rpcUrls = (chain.rpcUrls || []).filter((url: string) => url);
+    if (rpcUrls.length === 0 || !rpcUrls.every((url: string) => /^https?:\/\//.test(url))) {
+      throw new Error(`Chain ${chain.chainId} needs at least one http(s) RPC URL`);
+    }
+
+    const poolAddress = chain.poolAddress || null;
+    if (poolAddress && !ethers.isAddress(poolAddress)) {
+      throw new Error(`Invalid poolAddress for chain ${chain.chainId}: ${poolAddress}`);
+    }
+
+    const circuitsPath = path.resolve(PROJECT_ROOT, chain.circuitsPath || 'circuits');
+    if (!fs.existsSync(circuitsPath)) {
+      throw new Error(`Circuits directory for chain ${chain.chainId} not found: ${circuitsPath}`);
+    }
+
+    if (!Array.isArray(chain.tokens) || chain.tokens.length === 0) {
+      throw new Error(`Chain ${chain.chainId} needs at least one token`);
+    }
+
+    return {
+      chainId: chain.chainId,
+      name: chain.name,
+      rpcUrls,
+      poolAddress: poolAddress ? ethers.getAddress(poolAddress) : null,
+      deploymentBlock: chain.deploymentBlock || 0,
+      circuitsPath,
+      tokens: chain.tokens
+    };
+  }
+
+  /**
+   * Provider that tries each RPC endpoint in order, falling back when one fails
+   */
+  private buildProvider(config: ChainConfig): ethers.AbstractProvider {
+    const network = ethers.Network.from(config.chainId);
+    const providers = config.rpcUrls.map(url =>
+      new ethers.JsonRpcProvider(url, network, { staticNetwork: network })
+    );
+
+    if (providers.length === 1) {
+      return providers[0];
+    }
+
+    return new ethers.FallbackProvider(
+      providers.map((provider, i) => ({ provider, priority: i + 1, stallTimeout: 2000 })),
+      network,
+      { quorum: 1 }
+    );
+  }
+
+  getDefaultChainId(): number {
+    return this.defaultChainId;
+  }
+
+  get(chainId: number): ChainContext | null {
+    return this.chains.get(chainId) || null;
+  }
+
+  list(): ChainContext[] {
+    return [...this.chains.values()];
+  }
+
+  /**
+   * Resolve a request's chain from its chainId or network name (default chain when neither is given)
+   * Throws UnknownChainError for chains that aren't configured
+   */
+  resolve(chainId?: string | number, network?: string): ChainContext {
+    if (chainId !== undefined && chainId !== null && chainId !== '') {
+      const chain = this.chains.get(Number(chainId));
+      if (!chain) {
+        throw new UnknownChainError(chainId);
+      }
+      if (network && chain.config.name !== network) {
+        throw new UnknownChainError(`${chainId} (${network})`);
+      }
+      return chain;
+    }
+
+    if (network) {
+      const chain = this.list().find(c => c.config.name === network);
+      if (!chain) {
+        throw new UnknownChainError(network);
+      }
+      return chain;
+    }
+
+    return this.chains.get(this.defaultChainId)!;
+  }
+}
+
+// Export singleton instance
+export const chainRegistry = new ChainRegistryService();
@@ -0,0 +1,228 @@
+import * as snarkjs from 'snarkjs';
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import type { CircuitType } from './proof-generator';
+import { describeLayoutMismatch } from './public-signals';
+
+/**
+ * Circuit manifest
+ * circuits/manifest.json lists every loaded version of each circuit: its artifacts (paths relative to the
+ * circuits directory), their SHA-256 hashes and the public signal layout, so a partial or mismatched deploy
+ * is caught before serving. Versions are dotted numbers ("1.0.0"); the highest one is the latest.
+ * A version with deprecatedAt set keeps working until its deprecation window ends (see proof-generator).
+ * amountBits is the width the circuit range-checks amounts to (a Num2Bits(n) on the amount signal); leave it
+ * out when the circuit has no such check, and amounts are only bounded by the scalar field.
+ */
+
+export const MANIFEST_FILE = 'manifest.json';
+export const MANIFEST_VERSION = 2;
+
+export type ArtifactKind = 'wasm' | 'zkey' | 'vkey';
+
+const ARTIFACT_KINDS: ArtifactKind[] = ['wasm', 'zkey', 'vkey'];
+
+export interface CircuitManifestEntry {
+  name: string;
+  version: string;
+  wasm: string;
+  zkey: string;
+  vkey: string;
+  sha256: Record<ArtifactKind, string>;
+  publicSignals: string[];
+  amountBits?: number;
+  deprecatedAt?: string;
+}
+
+export interface CircuitManifest {
+  manifestVersion: number;
+  circuits: Record<CircuitType, CircuitManifestEntry[]>;  // ascending by version
+}
+
+export class CircuitManifestError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CircuitManifestError';
+  }
+}
+
+/**
+ * Requested circuit version is unknown, or past the end of its deprecation window
+ */
+export class CircuitVersionError extends Error {
+  retired: boolean;
+
+  constructor(message: string, retired = false) {
+    super(message);
+    this.name = 'CircuitVersionError';
+    this.retired = retired;
+  }
+}
+
+export const VERSION_PATTERN = /^\d+(\.\d+)*$/;
+
+/**
+ * Compare dotted version strings numerically ("1.10.0" > "1.9.2")
+ */
+export function compareCircuitVersions(a: string, b: string): number {
+  const left = a.split('.').map(Number);
+  const right = b.split('.').map(Number);
+
+  for (let i = 0; i < Math.max(left.length, right.length); i++) {
+    const diff = (left[i] || 0) - (right[i] || 0);
+    if (diff !== 0) {
+      return diff;
+    }
+  }
+  return 0;
+}
+
+// Verification key fields derived from the zkey; the vkey must match them exactly
+const VKEY_FIELDS = ['nPublic', 'vk_alpha_1', 'vk_beta_2', 'vk_gamma_2', 'vk_delta_2', 'IC'];
+
+/**
+ * Read and shape-check the manifest in a circuits directory
+ */
+export function readCircuitManifest(circuitsPath: string, circuitTypes: CircuitType[]): CircuitManifest {
+  const manifestPath = path.join(circuitsPath, MANIFEST_FILE);
+
+  if (!fs.existsSync(manifestPath)) {
+    throw new CircuitManifestError(`Circuit manifest not found: ${manifestPath}`);
+  }
+
+  let manifest: CircuitManifest;
+  try {
+    manifest = JSON.parse(fs.readFileSync(manifestPath, 'utf-8'));
+  } catch (error: any) {
+    throw new CircuitManifestError(`Circuit manifest is not valid JSON: ${error.message}`);
+  }
+
+  if (manifest.manifestVersion !== MANIFEST_VERSION) {
+    throw new CircuitManifestError(
+      `Unsupported circuit manifest version ${manifest.manifestVersion} (expected ${MANIFEST_VERSION})`
+    );
+  }
+
+  for (const circuitType of circuitTypes) {
+    const entries = manifest.circuits?.[circuitType];
+
+    if (!Array.isArray(entries) || entries.length === 0) {
+      throw new CircuitManifestError(`Circuit manifest has no versions for ${circuitType}`);
+    }
+
+    const seen = new Set<string>();
+    for (const entry of entries) {
+      validateEntry(circuitType, entry);
+
+      if (seen.has(entry.version)) {
+        throw new CircuitManifestError(`${circuitType}: version ${entry.version} is listed twice`);
+      }
+      seen.add(entry.version);
+    }
+
+    entries.sort((a, b) => compareCircuitVersions(a.version, b.version));
+  }
+
+  return manifest;
+}
+
+function validateEntry(circuitType: CircuitType, entry: CircuitManifestEntry): void {
+  if (typeof entry.version !== 'string' || !VERSION_PATTERN.test(entry.version)) {
+    throw new CircuitManifestError(`${circuitType}: version must be a dotted number such as "1.0.0"`);
+  }
+
+  const label = `${circuitType} v${entry.version}`;
+
+  for (const kind of ARTIFACT_KINDS) {
+    if (typeof entry[kind] !== 'string' || !entry[kind]) {
+      throw new CircuitManifestError(`${label}: ${kind} path is required`);
+    }
+    if (!/^[0-9a-f]{64}$/.test(entry.sha256?.[kind] || '')) {
+      throw new CircuitManifestError(`${label}: sha256.${kind} must be a hex SHA-256 digest`);
+    }
+  }
+
+  if (!Array.isArray(entry.publicSignals) || entry.publicSignals.length === 0) {
+    throw new CircuitManifestError(`${label}: publicSignals layout is required`);
+  }
+
+  const layoutMismatch = describeLayoutMismatch(circuitType, entry.publicSignals);
+  if (layoutMismatch) {
+    throw new CircuitManifestError(`${label}: publicSignals layout does not match the circuit (${layoutMismatch})`);
+  }
+
+  // Num2Bits only constrains widths below the 254-bit field
+  if (entry.amountBits !== undefined && !(Number.isInteger(entry.amountBits) && entry.amountBits >= 1 && entry.amountBits <= 253)) {
+    throw new CircuitManifestError(`${label}: amountBits must be an integer between 1 and 253`);
+  }
+
+  if (entry.deprecatedAt !== undefined && isNaN(Date.parse(entry.deprecatedAt))) {
+    throw new CircuitManifestError(`${label}: deprecatedAt must be an ISO date`);
+  }
+}
+
+export function resolveArtifactPath(circuitsPath: string, entry: CircuitManifestEntry, kind: ArtifactKind): string {
+  return path.resolve(circuitsPath, entry[kind]);
+}
+
+function sha256File(filePath: string): string {
+  return crypto.createHash('sha256').update(fs.readFileSync(filePath)).digest('hex');
+}
+
+/**
+ * Check a circuit's artifacts against its manifest entry
+ * Returns the artifact files that are missing; throws CircuitManifestError for artifacts that are present
+ * but don't match (hash, public signal count, or a verification key that wasn't exported from the zkey)
+ */
+export async function checkCircuitArtifacts(
+  circuitsPath: string,
+  circuitType: CircuitType,
+  entry: CircuitManifestEntry
+): Promise<string[]> {
+  const label = `${circuitType} v${entry.version}`;
+  const missing: string[] = [];
+
+  for (const kind of ARTIFACT_KINDS) {
+    const filePath = resolveArtifactPath(circuitsPath, entry, kind);
+
+    if (!fs.existsSync(filePath)) {
+      missing.push(filePath);
+      continue;
+    }
+
+    const digest = sha256File(filePath);
+    if (digest !== entry.sha256[kind]) {
+      throw new CircuitManifestError(
+        `${label} ${kind} hash mismatch: manifest ${entry.sha256[kind]}, file ${digest} (${filePath})`
+      );
+    }
+  }
+
+  const vkeyPath = resolveArtifactPath(circuitsPath, entry, 'vkey');
+  const zkeyPath = resolveArtifactPath(circuitsPath, entry, 'zkey');
+
+  if (fs.existsSync(vkeyPath)) {
+    const vKey = JSON.parse(fs.readFileSync(vkeyPath, 'utf-8'));
+
+    if (vKey.nPublic !== entry.publicSignals.length) {
+      throw new CircuitManifestError(
+        `${label} verification key has nPublic ${vKey.nPublic} but the manifest lists ${entry.publicSignals.length} public signals`
+      );
+    }
+
+    if (fs.existsSync(zkeyPath)) {
+      const exported = await snarkjs.zKey.exportVerificationKey(zkeyPath);
+      const mismatched = VKEY_FIELDS.filter(field =>
+        JSON.stringify(exported[field]) !== JSON.stringify(vKey[field])
+      );
+
+      if (mismatched.length > 0) {
+        throw new CircuitManifestError(
+          `${label} zkey and verification key do not match (${mismatched.join(', ')} differ)`
+        );
+      }
+    }
+  }
+
+  return missing;
+}
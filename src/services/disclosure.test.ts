@@ -0,0 +1,134 @@
+import { ethers } from 'ethers';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ChainContext } from './chain-registry';
+import { DisclosureError, DisclosureService, SignedDisclosure, disclosureDigest } from './disclosure';
+import { eventIndexer } from './event-indexer';
+import { nullifierRegistry } from './nullifier-registry';
+import { TokenInfo } from './token-registry';
+import { generateViewingKeyPair } from '../utils/note-encryption';
+
+const TOKEN: TokenInfo = {
+  chainId: 11155111,
+  address: '0x0000000000000000000000000000000000000000',
+  symbol: 'ETH',
+  decimals: 18,
+  poolSupported: true,
+  nativePrice: '1'
+};
+
+// Stand-in hashes: distinct per input, decimal like the real Poseidon outputs
+const chain = {
+  config: { chainId: TOKEN.chainId },
+  proofGenerator: {
+    generateCommitment: (secret: string, nullifier: string, randomness: string) =>
+      (BigInt(secret) * 1_000_000n + BigInt(nullifier) * 1_000n + BigInt(randomness)).toString(),
+    generateNullifierHash: (nullifier: string, randomness: string) => (BigInt(nullifier) * 1_000n + BigInt(randomness)).toString()
+  },
+  merkleTree: { hasCommitment: (commitment: string) => commitment === '1002003' }
+} as unknown as ChainContext;
+
+const NOTE = { secret: '1', nullifier: '2', randomness: '3', token: TOKEN };
+const SPEND_TX = '0x' + 'ab'.repeat(32);
+
+describe('DisclosureService', () => {
+  let service: DisclosureService;
+
+  beforeEach(async () => {
+    process.env.DISCLOSURE_SIGNING_KEY = ethers.Wallet.createRandom().privateKey;
+    service = new DisclosureService();
+    await service.initialize();
+
+    vi.spyOn(eventIndexer, 'getCommitmentStatus').mockResolvedValue(null);
+    vi.spyOn(eventIndexer, 'getIndexedChains').mockReturnValue([]);
+    vi.spyOn(nullifierRegistry, 'getRecord').mockResolvedValue(null);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    delete process.env.DISCLOSURE_SIGNING_KEY;
+  });
+
+  const spent = () => vi.mocked(nullifierRegistry.getRecord).mockResolvedValue({
+    chainId: TOKEN.chainId,
+    nullifierHash: '2003',
+    spentAt: new Date().toISOString(),
+    source: 'chain',
+    txHash: SPEND_TX,
+    blockNumber: 7
+  });
+
+  it('signs a report that verifies, without the secret of an unspent note', async () => {
+    const disclosure = await service.issue(chain, NOTE);
+
+    expect(disclosure.report).toMatchObject({ commitment: '1002003', nullifierHash: '2003', issuer: service.getIssuer() });
+    expect(disclosure.report.opening).toEqual({ nullifier: '2', randomness: '3' });
+    expect(disclosure.report).not.toHaveProperty('amount');
+
+    const result = await service.verify(chain, disclosure);
+
+    expect(result.valid).toBe(true);
+    expect(result.checks.signature.status).toBe('passed');
+    expect(result.checks.commitment.status).toBe('unavailable');
+  });
+
+  it('discloses the secret of a spent note so the commitment can be recomputed', async () => {
+    spent();
+    const disclosure = await service.issue(chain, NOTE);
+
+    expect(disclosure.report.opening.secret).toBe('1');
+    expect(disclosure.report.spend).toEqual({ txHash: SPEND_TX, blockNumber: 7 });
+
+    const result = await service.verify(chain, disclosure);
+    expect(result.valid).toBe(true);
+    expect(result.checks.commitment.status).toBe('passed');
+  });
+
+  it('refuses notes that were never deposited', async () => {
+    await expect(service.issue(chain, { ...NOTE, secret: '9' })).rejects.toThrow(DisclosureError);
+  });
+
+  it('fails the signature check when any signed field is changed', async () => {
+    spent();
+    const { report, signature } = await service.issue(chain, NOTE);
+
+    const tampered: SignedDisclosure[] = [
+      { report: { ...report, chainId: 1 }, signature },
+      { report: { ...report, token: { ...report.token, symbol: 'USDC' } }, signature },
+      { report: { ...report, issuedAt: new Date(0).toISOString() }, signature },
+      { report: { ...report, destination: { address: '0x000000000000000000000000000000000000dEaD', source: 'declared' } }, signature }
+    ];
+
+    for (const disclosure of tampered) {
+      const result = await service.verify(chain, disclosure);
+      expect(result.valid).toBe(false);
+      expect(result.checks.signature.status).toBe('failed');
+    }
+  });
+
+  it('catches a re-signed report whose opening does not hash to its commitment and nullifier hash', async () => {
+    spent();
+    const { report } = await service.issue(chain, NOTE);
+    const forger = ethers.Wallet.createRandom();
+    const forged = { ...report, opening: { ...report.opening, randomness: '4' }, issuer: forger.address };
+    const signature = await forger.signMessage(ethers.getBytes(disclosureDigest(forged)));
+
+    const result = await service.verify(chain, { report: forged, signature });
+
+    expect(result.valid).toBe(false);
+    expect(result.checks).toMatchObject({
+      signature: { status: 'passed' },
+      issuer: { status: 'failed' },
+      nullifierHash: { status: 'failed' },
+      commitment: { status: 'failed' }
+    });
+  });
+
+  it('encrypts a report to an auditor key that alone can open it', async () => {
+    const auditor = generateViewingKeyPair();
+    const disclosure = await service.issue(chain, NOTE);
+    const encrypted = service.encrypt(disclosure, auditor.publicKey);
+
+    expect(service.decrypt(encrypted, auditor.privateKey)).toEqual(disclosure);
+    expect(() => service.decrypt(encrypted, generateViewingKeyPair().privateKey)).toThrow(DisclosureError);
+  });
+});
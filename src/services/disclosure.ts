@@ -0,0 +1,366 @@
+import { ethers } from 'ethers';
+import { ChainContext } from './chain-registry';
+import { TokenInfo } from './token-registry';
+import { CommitmentStatusResult, eventIndexer } from './event-indexer';
+import { nullifierRegistry } from './nullifier-registry';
+import { relayer } from './relayer';
+import { SealedPayload, associatedData, openPayload, sealPayload } from '../utils/note-encryption';
+import { decodeRecipient } from '../utils/recipient';
+
+/**
+ * Disclosure Service
+ * Issues signed selective disclosure reports: a statement about one note (its deposit commitment, token, spend
+ * nullifier hash and destination) that its holder hands to an auditor without revealing any other note. Neither
+ * the commitment nor the pool's events bind a note's amount, so the service can't check one and reports leave
+ * it out.
+ * A report carries the note's nullifier and randomness, so anyone can recompute the nullifier hash, and its secret
+ * once the note is spent, so the commitment can be recomputed too. An unspent note's secret is never disclosed,
+ * so a report never confers spend authority. Reports can be encrypted to an auditor's viewing key.
+ * The report format and signing rules are specified in docs/disclosure.md; keep the two in sync.
+ *
+ * Configured through:
+ *   DISCLOSURE_SIGNING_KEY - private key reports are signed with; without it reports can be verified but not issued
+ */
+
+export const DISCLOSURE_VERSION = 2;
+
+const DISCLOSURE_ENCRYPTION_INFO = 'veilon-disclosure-v1';
+
+export interface DisclosedTransaction {
+  txHash?: string;
+  blockNumber?: number;
+}
+
+export interface DisclosureReport {
+  version: number;
+  chainId: number;
+  commitment: string;
+  nullifierHash: string;
+  token: { address: string; symbol: string; decimals: number };
+  opening: { nullifier: string; randomness: string; secret?: string };  // secret only once the note is spent
+  deposit?: DisclosedTransaction;
+  spend?: DisclosedTransaction;
+  destination?: { address: string; source: 'relayer' | 'declared' };
+  issuer: string;
+  issuedAt: string;
+}
+
+export interface SignedDisclosure {
+  report: DisclosureReport;
+  signature: string;
+}
+
+export interface EncryptedDisclosure extends SealedPayload {
+  version: number;
+  commitment: string;
+}
+
+export type DisclosureCheckName = 'signature' | 'issuer' | 'nullifierHash' | 'commitment' | 'deposit' | 'spend' | 'destination';
+
+export interface DisclosureCheck {
+  status: 'passed' | 'failed' | 'unavailable';
+  detail?: string;
+}
+
+export interface DisclosureVerification {
+  valid: boolean;  // no check failed
+  checks: Record<DisclosureCheckName, DisclosureCheck>;
+}
+
+export class DisclosureError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DisclosureError';
+  }
+}
+
+const passed = (detail?: string): DisclosureCheck => ({ status: 'passed', ...(detail ? { detail } : {}) });
+const failed = (detail: string): DisclosureCheck => ({ status: 'failed', detail });
+const unavailable = (detail: string): DisclosureCheck => ({ status: 'unavailable', detail });
+
+/**
+ * JSON with object keys sorted at every level and undefined members left out
+ */
+function canonicalJson(value: any): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`;
+  }
+
+  if (value && typeof value === 'object') {
+    const members = Object.keys(value)
+      .filter(key => value[key] !== undefined)
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${canonicalJson(value[key])}`);
+    return `{${members.join(',')}}`;
+  }
+
+  return JSON.stringify(value);
+}
+
+/**
+ * Digest a report is signed over: keccak256 of its canonical JSON
+ */
+export function disclosureDigest(report: DisclosureReport): string {
+  return ethers.keccak256(ethers.toUtf8Bytes(canonicalJson(report)));
+}
+
+export class DisclosureService {
+  private signer?: ethers.Wallet;
+
+  /**
+   * Initialize the service (loads the signing key when configured)
+   */
+  async initialize(): Promise<void> {
+    const privateKey = process.env.DISCLOSURE_SIGNING_KEY;
+
+    if (!privateKey) {
+      console.log('ℹ️  DISCLOSURE_SIGNING_KEY not set. Disclosure reports can be verified but not issued.');
+      return;
+    }
+
+    this.signer = new ethers.Wallet(privateKey);
+    console.log(`✅ Disclosure signer ready (${this.signer.address})`);
+  }
+
+  getIssuer(): string | null {
+    return this.signer?.address || null;
+  }
+
+  /**
+   * Build and sign the disclosure report of a note
+   * Throws DisclosureError when issuing is disabled, the note was never deposited, or the declared destination
+   * contradicts the spend
+   */
+  async issue(chain: ChainContext, note: {
+    secret: string;
+    nullifier: string;
+    randomness: string;
+    token: TokenInfo;
+    destination?: string;
+  }): Promise<SignedDisclosure> {
+    if (!this.signer) {
+      throw new DisclosureError('This service does not issue disclosure reports (DISCLOSURE_SIGNING_KEY is not set)');
+    }
+
+    const { chainId } = chain.config;
+    const { secret, nullifier, randomness, token } = note;
+    const commitment = chain.proofGenerator.generateCommitment(secret, nullifier, randomness);
+    const nullifierHash = chain.proofGenerator.generateNullifierHash(nullifier, randomness);
+
+    const indexed = await eventIndexer.getCommitmentStatus(chainId, commitment, nullifierHash);
+    if (!indexed && !chain.merkleTree.hasCommitment(commitment)) {
+      throw new DisclosureError(`Commitment ${commitment} has not been deposited on chain ${chainId}`);
+    }
+
+    const spend = await this.findSpend(chainId, nullifierHash, indexed);
+    const destination = this.resolveDestination(spend, note.destination);
+
+    const report: DisclosureReport = {
+      version: DISCLOSURE_VERSION,
+      chainId,
+      commitment,
+      nullifierHash,
+      token: { address: token.address, symbol: token.symbol, decimals: token.decimals },
+      opening: { nullifier, randomness, ...(spend ? { secret } : {}) },
+      ...(indexed ? { deposit: { txHash: indexed.txHash, blockNumber: indexed.blockNumber } } : {}),
+      ...(spend ? { spend: { txHash: spend.txHash, blockNumber: spend.blockNumber } } : {}),
+      ...(destination ? { destination } : {}),
+      issuer: this.signer.address,
+      issuedAt: new Date().toISOString()
+    };
+
+    const signature = await this.signer.signMessage(ethers.getBytes(disclosureDigest(report)));
+
+    console.log(`🧾 Disclosure report issued for commitment ${commitment.substring(0, 10)}...`);
+
+    return { report, signature };
+  }
+
+  /**
+   * Check a report's signature, recompute its hashes on the report's chain, and compare it with indexed chain data
+   * While this service has a signing key, reports signed by any other key fail the issuer check.
+   */
+  async verify(chain: ChainContext, { report, signature }: SignedDisclosure): Promise<DisclosureVerification> {
+    const { chainId } = chain.config;
+    const { proofGenerator } = chain;
+    const { opening } = report;
+
+    let signer: string | null = null;
+    try {
+      signer = ethers.verifyMessage(ethers.getBytes(disclosureDigest(report)), signature);
+    } catch {
+      signer = null;
+    }
+
+    const issuer = this.getIssuer();
+    const indexed = await eventIndexer.getCommitmentStatus(chainId, report.commitment, report.nullifierHash);
+    const spend = await this.findSpend(chainId, report.nullifierHash, indexed);
+
+    const checks: Record<DisclosureCheckName, DisclosureCheck> = {
+      signature: signer === report.issuer
+        ? passed()
+        : failed(signer ? `Signed by ${signer}, not the issuer ${report.issuer}` : 'Signature is malformed'),
+      issuer: !issuer
+        ? unavailable('This service has no disclosure signing key')
+        : report.issuer === issuer
+        ? passed()
+        : failed(`Issued by ${report.issuer}, not by this service (${issuer})`),
+      nullifierHash: proofGenerator.generateNullifierHash(opening.nullifier, opening.randomness) === report.nullifierHash
+        ? passed()
+        : failed('Does not match the disclosed nullifier and randomness'),
+      commitment: opening.secret === undefined
+        ? unavailable('The secret of an unspent note is not disclosed')
+        : proofGenerator.generateCommitment(opening.secret, opening.nullifier, opening.randomness) === report.commitment
+        ? passed()
+        : failed('Does not match the disclosed opening'),
+      deposit: this.checkDeposit(chain, report, indexed),
+      spend: this.checkSpend(report, spend),
+      destination: this.checkDestination(report)
+    };
+
+    return {
+      valid: Object.values(checks).every(check => check.status !== 'failed'),
+      checks
+    };
+  }
+
+  /**
+   * Encrypt a signed report to an auditor's viewing public key
+   */
+  encrypt(disclosure: SignedDisclosure, auditorViewingPublicKey: string): EncryptedDisclosure {
+    const { commitment } = disclosure.report;
+
+    return {
+      version: DISCLOSURE_VERSION,
+      commitment,
+      ...sealPayload(
+        JSON.stringify(disclosure),
+        auditorViewingPublicKey,
+        DISCLOSURE_ENCRYPTION_INFO,
+        associatedData(DISCLOSURE_VERSION, commitment)
+      )
+    };
+  }
+
+  /**
+   * Decrypt a report with the auditor's viewing private key; throws DisclosureError if it was encrypted to another key
+   */
+  decrypt(encrypted: EncryptedDisclosure, viewingPrivateKey: string): unknown {
+    if (encrypted.version !== DISCLOSURE_VERSION) {
+      throw new DisclosureError(`Unsupported disclosure version: ${encrypted.version}`);
+    }
+
+    try {
+      return JSON.parse(openPayload(
+        encrypted,
+        viewingPrivateKey,
+        DISCLOSURE_ENCRYPTION_INFO,
+        associatedData(encrypted.version, encrypted.commitment)
+      ));
+    } catch {
+      throw new DisclosureError('Encrypted report could not be decrypted with this viewing key');
+    }
+  }
+
+  private async findSpend(
+    chainId: number,
+    nullifierHash: string,
+    indexed: CommitmentStatusResult | null
+  ): Promise<DisclosedTransaction | null> {
+    // The indexer already falls back to the nullifier registry for commitments it knows
+    return indexed ? indexed.spend : nullifierRegistry.getRecord(chainId, nullifierHash);
+  }
+
+  /**
+   * Recipient bound into a spend this relayer submitted: undefined when the relayer didn't submit it, null when the
+   * proof binds no recipient
+   */
+  private relayedDestination(txHash?: string): string | null | undefined {
+    const relayed = txHash ? relayer.getTransaction(txHash) : null;
+    if (!relayed?.decodedSignals) {
+      return undefined;
+    }
+    return decodeRecipient(relayed.decodedSignals.recipient);
+  }
+
+  private resolveDestination(
+    spend: DisclosedTransaction | null,
+    declared?: string
+  ): DisclosureReport['destination'] | undefined {
+    if (!spend) {
+      if (declared) {
+        throw new DisclosureError('A destination can only be disclosed for a spent note');
+      }
+      return undefined;
+    }
+
+    const relayedTo = this.relayedDestination(spend.txHash);
+    if (relayedTo === undefined) {
+      return declared ? { address: declared, source: 'declared' } : undefined;
+    }
+
+    if (declared && declared !== relayedTo) {
+      throw new DisclosureError(`Destination ${declared} does not match the recipient of spend ${spend.txHash} (${relayedTo})`);
+    }
+
+    return relayedTo ? { address: relayedTo, source: 'relayer' } : undefined;
+  }
+
+  private checkDeposit(chain: ChainContext, report: DisclosureReport, indexed: CommitmentStatusResult | null): DisclosureCheck {
+    if (indexed) {
+      if (report.deposit?.txHash && report.deposit.txHash !== indexed.txHash) {
+        return failed(`Commitment was deposited in ${indexed.txHash}`);
+      }
+      return passed(`Indexed in ${indexed.txHash} (${indexed.status})`);
+    }
+
+    if (chain.merkleTree.hasCommitment(report.commitment)) {
+      return passed('In the commitment tree');
+    }
+
+    const indexedChain = eventIndexer.getIndexedChains().some(({ config }) => config.chainId === chain.config.chainId);
+    return indexedChain
+      ? failed(`Commitment not found on chain ${chain.config.chainId}`)
+      : unavailable(`Chain ${chain.config.chainId} is not indexed and the commitment tree does not hold the commitment`);
+  }
+
+  private checkSpend(report: DisclosureReport, spend: DisclosedTransaction | null): DisclosureCheck {
+    if (!report.spend) {
+      return spend
+        ? passed(`Spent in ${spend.txHash || 'an unknown transaction'} after the report was issued`)
+        : passed('Not spent');
+    }
+
+    if (!spend) {
+      return failed('Nullifier hash has not been spent on chain');
+    }
+
+    if (report.spend.txHash && spend.txHash && report.spend.txHash !== spend.txHash) {
+      return failed(`Nullifier hash was spent in ${spend.txHash}`);
+    }
+
+    return passed(spend.txHash ? `Spent in ${spend.txHash}` : undefined);
+  }
+
+  private checkDestination(report: DisclosureReport): DisclosureCheck {
+    if (!report.destination) {
+      return unavailable('No destination disclosed');
+    }
+
+    const relayedTo = this.relayedDestination(report.spend?.txHash);
+    if (relayedTo === undefined) {
+      return unavailable(
+        report.destination.source === 'declared'
+          ? "Declared by the note's holder; pool events do not record it"
+          : 'Spend was not submitted by this relayer'
+      );
+    }
+
+    return relayedTo === report.destination.address
+      ? passed()
+      : failed(`Spend paid out to ${relayedTo || 'no recipient'}`);
+  }
+}
+
+// Export singleton instance
+export const disclosures = new DisclosureService();
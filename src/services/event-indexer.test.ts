@@ -0,0 +1,127 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ChainContext } from './chain-registry';
+import { EventIndexerService } from './event-indexer';
+import { MerkleTreeService } from './merkle-tree';
+import { nullifierRegistry } from './nullifier-registry';
+
+const CHAIN_ID = 11155111;
+
+type FixtureEvents = Record<number, Array<{ name: string; commitments?: Array<{ commitment: string; leafIndex: number }> }>>;
+
+describe('EventIndexerService reorgs', () => {
+  let dir: string;
+  let fixtureFile: string;
+  let chain: ChainContext;
+  let indexer: EventIndexerService;
+
+  // Blocks 1..head on a fork; a block's hash depends on the fork it is on from forkFrom on
+  function writeFixture(head: number, events: FixtureEvents, fork = { label: 'a', from: 1 }) {
+    const blocks = Array.from({ length: head }, (_, i) => {
+      const number = i + 1;
+      const label = number >= fork.from ? fork.label : 'a';
+      return {
+        number,
+        hash: `0x${label}${number}`,
+        events: (events[number] || []).map((event, j) => ({ transactionHash: `0x${label}${number}${j}`, ...event }))
+      };
+    });
+    fs.writeFileSync(fixtureFile, JSON.stringify({ chainId: CHAIN_ID, head, blocks }));
+  }
+
+  beforeEach(async () => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'event-indexer-'));
+    fixtureFile = path.join(dir, 'fixture.json');
+    process.env.INDEXER_DIR = dir;
+    process.env.INDEXER_FIXTURE_FILE = fixtureFile;
+    process.env.INDEXER_CONFIRMATIONS = '3';
+    process.env.MERKLE_TREE_DIR = dir;
+    process.env.MERKLE_TREE_DEPTH = '4';
+
+    const merkleTree = new MerkleTreeService(CHAIN_ID);
+    await merkleTree.initialize();
+    chain = { config: { chainId: CHAIN_ID, deploymentBlock: 1 }, merkleTree } as unknown as ChainContext;
+    indexer = new EventIndexerService();
+
+    vi.spyOn(nullifierRegistry, 'getRecord').mockResolvedValue(null);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    fs.rmSync(dir, { recursive: true, force: true });
+    for (const name of ['INDEXER_DIR', 'INDEXER_FIXTURE_FILE', 'INDEXER_CONFIRMATIONS', 'MERKLE_TREE_DIR', 'MERKLE_TREE_DEPTH']) {
+      delete process.env[name];
+    }
+  });
+
+  const deposit = (commitment: string, leafIndex: number) => ({ name: 'Deposit', commitments: [{ commitment, leafIndex }] });
+
+  it('drops pending events from reorged blocks and reads the new ones', async () => {
+    writeFixture(5, { 5: [deposit('1', 0)] });
+    await indexer.syncChain(chain);
+    expect((await indexer.getCommitmentStatus(CHAIN_ID, '1'))?.status).toBe('pending');
+
+    writeFixture(6, { 6: [deposit('2', 0)] }, { label: 'b', from: 5 });
+    const result = await indexer.syncChain(chain);
+
+    expect(result.reorgedFrom).toBe(5);
+    expect(await indexer.getCommitmentStatus(CHAIN_ID, '1')).toBeNull();
+    expect((await indexer.getCommitmentStatus(CHAIN_ID, '2'))?.leafIndex).toBe(0);
+    expect(chain.merkleTree.getLeafCount()).toBe(0);
+  });
+
+  it('rolls back to the fork point when a reorg drops confirmed events, instead of failing every sync', async () => {
+    writeFixture(10, {
+      2: [deposit('1', 0)],
+      4: [{ name: 'Withdrawal', commitments: [{ commitment: '2', leafIndex: 1 }] }]
+    });
+    await indexer.syncChain(chain);
+    expect(chain.merkleTree.getLeafCount()).toBe(2);
+
+    // Everything from block 3 on is replaced; block 4 now holds a different deposit
+    writeFixture(12, { 2: [deposit('1', 0)], 4: [deposit('3', 1)] }, { label: 'b', from: 3 });
+    const result = await indexer.syncChain(chain);
+
+    expect(result.reorgedFrom).toBe(3);
+    expect(await indexer.getCommitmentStatus(CHAIN_ID, '2')).toBeNull();
+    expect((await indexer.getCommitmentStatus(CHAIN_ID, '3'))?.status).toBe('confirmed');
+    expect(chain.merkleTree.hasCommitment('2')).toBe(false);
+    expect(chain.merkleTree.getPath('3')?.leafIndex).toBe(1);
+
+    // The next sync finds nothing to roll back
+    expect((await indexer.syncChain(chain)).reorgedFrom).toBeUndefined();
+  });
+
+  it('reads the chain again from its deploymentBlock when no indexed block survives the reorg', async () => {
+    writeFixture(10, { 2: [deposit('1', 0)] });
+    await indexer.syncChain(chain);
+
+    writeFixture(10, { 3: [deposit('4', 0)] }, { label: 'b', from: 1 });
+    const result = await indexer.syncChain(chain);
+
+    expect(result).toMatchObject({ reorgedFrom: 1, fromBlock: 1 });
+    expect(chain.merkleTree.hasCommitment('1')).toBe(false);
+    expect(chain.merkleTree.hasCommitment('4')).toBe(true);
+  });
+
+  it('reads spends from the nullifier registry', async () => {
+    writeFixture(10, { 2: [deposit('1', 0)] });
+    await indexer.syncChain(chain);
+
+    vi.mocked(nullifierRegistry.getRecord).mockResolvedValue({
+      chainId: CHAIN_ID,
+      nullifierHash: '7',
+      spentAt: new Date().toISOString(),
+      source: 'chain',
+      txHash: '0xspend',
+      blockNumber: 6
+    });
+
+    const status = await indexer.getCommitmentStatus(CHAIN_ID, '1', '7');
+
+    expect(nullifierRegistry.getRecord).toHaveBeenCalledWith(CHAIN_ID, '7');
+    expect(status).toMatchObject({ status: 'spent', spend: { nullifierHash: '7', txHash: '0xspend', confirmations: 5 } });
+  });
+});
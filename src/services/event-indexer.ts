@@ -0,0 +1,546 @@
+import { ethers } from 'ethers';
+import * as fs from 'fs';
+import * as path from 'path';
+import { POOL_ABI } from '../constants/pool-abi';
+import { ChainContext, chainRegistry } from './chain-registry';
+import { nullifierRegistry } from './nullifier-registry';
+
+/**
+ * Event Indexer Service
+ * Follows each pool's Deposit, Withdrawal and Transfer events and keeps the commitments they insert. An event is
+ * confirmed once its block is INDEXER_CONFIRMATIONS deep (counting the block itself); only then are its
+ * commitments appended to the chain's Merkle tree. The hashes of unconfirmed blocks, and of every block an event
+ * came from, are kept, so a reorg is noticed on the next sync: events from the dropped blocks are discarded and
+ * the blocks are read again. A reorg deeper than the confirmation depth also takes its commitments back out of the
+ * Merkle tree. Spent nullifiers are left to the nullifier registry, which follows NullifierSpent events and rolls
+ * back its own reorged spends; commitment status reads them from there.
+ *
+ * Configured through:
+ *   INDEXER_CONFIRMATIONS    - blocks deep an event must be to count as confirmed (default 12)
+ *   INDEXER_POLL_INTERVAL_MS - sync every indexed chain at this interval (0/unset disables)
+ *   INDEXER_DIR              - where each chain's index is persisted as indexer-<chainId>.json (default data/)
+ *   INDEXER_FIXTURE_FILE     - replay a fixture of blocks and events for one configured chain instead of its RPC
+ *
+ * A fixture is { chainId, head?, blocks: [{ number, hash, events: [{ name, transactionHash, commitments }] }] } and is re-read on every sync, so rewriting it simulates new blocks or a reorg. To index
+ * a local Anvil chain, point the chain config's rpcUrls and poolAddress at it instead.
+ */
+
+export type PoolEventName = 'Deposit' | 'Withdrawal' | 'Transfer';
+
+export interface InsertedCommitment {
+  commitment: string;
+  leafIndex: number;
+}
+
+export interface PoolEvent {
+  name: PoolEventName;
+  blockNumber: number;
+  blockHash: string;
+  transactionHash: string;
+  logIndex: number;
+  commitments: InsertedCommitment[];
+}
+
+/**
+ * Where a chain's pool events are read from
+ */
+export interface PoolEventSource {
+  getBlockNumber(): Promise<number>;
+  getBlockHash(blockNumber: number): Promise<string | null>;
+  getEvents(fromBlock: number, toBlock: number): Promise<PoolEvent[]>;
+}
+
+const INDEXED_EVENTS: PoolEventName[] = ['Deposit', 'Withdrawal', 'Transfer'];
+
+/**
+ * Reads events from the pool contract through the chain's RPC provider
+ */
+export class ProviderEventSource implements PoolEventSource {
+  private provider: ethers.AbstractProvider;
+  private pool: ethers.Contract;
+
+  constructor(provider: ethers.AbstractProvider, poolAddress: string) {
+    this.provider = provider;
+    this.pool = new ethers.Contract(poolAddress, POOL_ABI, provider);
+  }
+
+  async getBlockNumber(): Promise<number> {
+    return this.provider.getBlockNumber();
+  }
+
+  async getBlockHash(blockNumber: number): Promise<string | null> {
+    const block = await this.provider.getBlock(blockNumber);
+    return block?.hash ?? null;
+  }
+
+  async getEvents(fromBlock: number, toBlock: number): Promise<PoolEvent[]> {
+    const topics = INDEXED_EVENTS.map(name => this.pool.interface.getEvent(name)!.topicHash);
+    const logs = await this.pool.queryFilter([topics], fromBlock, toBlock);
+
+    return logs.map(log => {
+      const { eventName, args } = log as ethers.EventLog;
+      const event: PoolEvent = {
+        name: eventName as PoolEventName,
+        blockNumber: log.blockNumber,
+        blockHash: log.blockHash,
+        transactionHash: log.transactionHash,
+        logIndex: log.index,
+        commitments: []
+      };
+
+      if (eventName === 'Deposit') {
+        event.commitments.push({ commitment: args.commitment.toString(), leafIndex: Number(args.leafIndex) });
+      } else if (eventName === 'Withdrawal') {
+        event.commitments.push({ commitment: args.changeCommitment.toString(), leafIndex: Number(args.changeLeafIndex) });
+      } else {
+        event.commitments.push(
+          { commitment: args.outputCommitment.toString(), leafIndex: Number(args.outputLeafIndex) },
+          { commitment: args.changeCommitment.toString(), leafIndex: Number(args.changeLeafIndex) }
+        );
+      }
+
+      return event;
+    });
+  }
+}
+
+interface FixtureBlock {
+  number: number;
+  hash: string;
+  events?: Array<Omit<PoolEvent, 'blockNumber' | 'blockHash' | 'logIndex'> & { logIndex?: number }>;
+}
+
+interface EventFixture {
+  chainId: number;
+  head?: number;  // defaults to the highest listed block
+  blocks: FixtureBlock[];
+}
+
+/**
+ * Replays blocks and events from a JSON fixture; blocks it doesn't list are empty
+ */
+export class FixtureEventSource implements PoolEventSource {
+  private filePath: string;
+
+  constructor(filePath: string) {
+    this.filePath = path.resolve(filePath);
+  }
+
+  static readChainId(filePath: string): number {
+    return (JSON.parse(fs.readFileSync(path.resolve(filePath), 'utf-8')) as EventFixture).chainId;
+  }
+
+  private read(): EventFixture {
+    return JSON.parse(fs.readFileSync(this.filePath, 'utf-8'));
+  }
+
+  async getBlockNumber(): Promise<number> {
+    const fixture = this.read();
+    return fixture.head ?? Math.max(0, ...fixture.blocks.map(block => block.number));
+  }
+
+  async getBlockHash(blockNumber: number): Promise<string | null> {
+    if (blockNumber > await this.getBlockNumber()) {
+      return null;
+    }
+    const block = this.read().blocks.find(b => b.number === blockNumber);
+    return block ? block.hash : ethers.id(`fixture block ${blockNumber}`);
+  }
+
+  async getEvents(fromBlock: number, toBlock: number): Promise<PoolEvent[]> {
+    return this.read().blocks
+      .filter(block => block.number >= fromBlock && block.number <= toBlock)
+      .flatMap(block => (block.events || []).map((event, i) => ({
+        name: event.name,
+        blockNumber: block.number,
+        blockHash: block.hash,
+        transactionHash: event.transactionHash,
+        logIndex: event.logIndex ?? i,
+        commitments: (event.commitments || []).map(c => ({
+          commitment: BigInt(c.commitment).toString(),
+          leafIndex: c.leafIndex
+        }))
+      })));
+  }
+}
+
+interface IndexedRecord {
+  event: PoolEventName;
+  txHash: string;
+  blockNumber: number;
+  blockHash: string;
+  confirmed: boolean;
+}
+
+export interface CommitmentRecord extends InsertedCommitment, IndexedRecord {}
+
+interface ChainIndex {
+  lastIndexedBlock: number | null;
+  head: number | null;
+  blockHashes: Record<string, string>;  // indexed blocks that aren't confirmed yet
+  commitments: Record<string, CommitmentRecord>;
+}
+
+export type CommitmentStatus = 'pending' | 'confirmed' | 'spent';
+
+export interface CommitmentStatusResult {
+  chainId: number;
+  commitment: string;
+  status: CommitmentStatus;
+  leafIndex: number;
+  event: PoolEventName;
+  txHash: string;
+  blockNumber: number;
+  confirmations: number;
+  spend: {
+    nullifierHash: string;
+    txHash?: string;
+    blockNumber?: number;
+    confirmations: number | null;
+  } | null;
+}
+
+export interface IndexerSyncResult {
+  fromBlock: number;
+  toBlock: number;
+  events: number;
+  confirmed: number;
+  reorgedFrom?: number;
+}
+
+// Blocks per eth_getLogs request, kept under common RPC provider limits
+const SYNC_BLOCK_RANGE = 5000;
+
+export class EventIndexerService {
+  private confirmations: number;
+  private dir: string;
+  private fixtureFile: string | null;
+  private indexes: Map<number, ChainIndex> = new Map();
+  private syncTimer?: NodeJS.Timeout;
+  private syncing: Set<number> = new Set();
+
+  constructor() {
+    this.confirmations = Math.max(1, parseInt(process.env.INDEXER_CONFIRMATIONS || '12', 10));
+    this.dir = path.resolve(process.env.INDEXER_DIR || path.resolve(__dirname, '../../data'));
+    this.fixtureFile = process.env.INDEXER_FIXTURE_FILE || null;
+  }
+
+  /**
+   * Initialize the service (loads each chain's index and starts polling if configured)
+   */
+  async initialize(): Promise<void> {
+    console.log('🔧 Initializing EventIndexerService...');
+
+    const chains = this.getIndexedChains();
+    for (const chain of chains) {
+      this.indexes.set(chain.config.chainId, this.load(chain.config.chainId));
+    }
+
+    console.log(`✅ Event indexer ready (${chains.length} chains, ${this.confirmations} confirmations)`);
+
+    const interval = parseInt(process.env.INDEXER_POLL_INTERVAL_MS || '0', 10);
+    if (interval > 0 && chains.length > 0) {
+      const sync = () => this.syncAll().catch(error => {
+        console.error('❌ Event indexer sync failed:', error.message);
+      });
+
+      await sync();
+      this.syncTimer = setInterval(sync, interval);
+      this.syncTimer.unref();
+    }
+  }
+
+  getConfirmationDepth(): number {
+    return this.confirmations;
+  }
+
+  /**
+   * Chains with a deployed pool, plus the fixture's chain when replaying one
+   */
+  getIndexedChains(): ChainContext[] {
+    const fixtureChainId = this.fixtureFile ? FixtureEventSource.readChainId(this.fixtureFile) : null;
+    return chainRegistry.list().filter(chain =>
+      chain.config.poolAddress || chain.config.chainId === fixtureChainId
+    );
+  }
+
+  private getSource(chain: ChainContext): PoolEventSource {
+    const { chainId, poolAddress } = chain.config;
+
+    if (this.fixtureFile && FixtureEventSource.readChainId(this.fixtureFile) === chainId) {
+      return new FixtureEventSource(this.fixtureFile);
+    }
+
+    if (!poolAddress) {
+      throw new Error(`No pool contract configured for chain ${chainId}`);
+    }
+
+    return new ProviderEventSource(chain.provider, poolAddress);
+  }
+
+  private filePath(chainId: number): string {
+    return path.join(this.dir, `indexer-${chainId}.json`);
+  }
+
+  private load(chainId: number): ChainIndex {
+    const empty: ChainIndex = { lastIndexedBlock: null, head: null, blockHashes: {}, commitments: {} };
+    const filePath = this.filePath(chainId);
+
+    if (!fs.existsSync(filePath)) {
+      return empty;
+    }
+
+    // Older indexes also kept spends, which the nullifier registry now owns
+    const { spends, ...stored } = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+    return { ...empty, ...stored };
+  }
+
+  // Written to a temporary file and renamed over the old one, so a crash leaves the previous index intact
+  private save(chainId: number, index: ChainIndex): void {
+    const filePath = this.filePath(chainId);
+    fs.mkdirSync(this.dir, { recursive: true });
+    fs.writeFileSync(`${filePath}.tmp`, JSON.stringify(index));
+    fs.renameSync(`${filePath}.tmp`, filePath);
+  }
+
+  private getIndex(chainId: number): ChainIndex {
+    if (!this.indexes.has(chainId)) {
+      this.indexes.set(chainId, this.load(chainId));
+    }
+    return this.indexes.get(chainId)!;
+  }
+
+  /**
+   * Sync every indexed chain; one failing chain doesn't stop the others
+   */
+  async syncAll(): Promise<Array<{ chainId: number; error?: string } & Partial<IndexerSyncResult>>> {
+    const results = [];
+
+    for (const chain of this.getIndexedChains()) {
+      try {
+        results.push({ chainId: chain.config.chainId, ...await this.syncChain(chain) });
+      } catch (error: any) {
+        console.error(`❌ Event indexer sync failed for chain ${chain.config.chainId}:`, error.message);
+        results.push({ chainId: chain.config.chainId, error: error.message });
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * Roll back any reorged blocks, index new events up to the chain head and confirm the ones deep enough
+   */
+  async syncChain(chain: ChainContext): Promise<IndexerSyncResult> {
+    const { chainId, deploymentBlock } = chain.config;
+
+    if (this.syncing.has(chainId)) {
+      throw new Error(`Event indexer sync already in progress for chain ${chainId}`);
+    }
+
+    this.syncing.add(chainId);
+    const index = this.getIndex(chainId);
+
+    try {
+      const source = this.getSource(chain);
+      const reorgedFrom = await this.findReorg(source, index, deploymentBlock);
+      if (reorgedFrom !== null) {
+        await this.rollback(chain, index, reorgedFrom);
+      }
+
+      const head = await source.getBlockNumber();
+      const fromBlock = index.lastIndexedBlock !== null ? index.lastIndexedBlock + 1 : deploymentBlock;
+      let events = 0;
+
+      for (let start = fromBlock; start <= head; start += SYNC_BLOCK_RANGE) {
+        const end = Math.min(start + SYNC_BLOCK_RANGE - 1, head);
+        const batch = await source.getEvents(start, end);
+
+        batch.sort((a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex);
+        for (const event of batch) {
+          this.apply(index, event);
+          events++;
+        }
+        index.lastIndexedBlock = end;
+      }
+
+      // Keep the hashes of blocks that could still be reorged out; ones with events keep the hash they were read at
+      for (let blockNumber = Math.max(fromBlock, head - this.confirmations + 2); blockNumber <= head; blockNumber++) {
+        if (!index.blockHashes[blockNumber]) {
+          const hash = await source.getBlockHash(blockNumber);
+          if (hash) {
+            index.blockHashes[blockNumber] = hash;
+          }
+        }
+      }
+
+      index.head = head;
+      const confirmed = await this.confirm(chain, index);
+
+      for (const blockNumber of Object.keys(index.blockHashes)) {
+        if (Number(blockNumber) <= head - this.confirmations + 1) {
+          delete index.blockHashes[blockNumber];
+        }
+      }
+
+      if (events > 0 || confirmed > 0) {
+        console.log(
+          `✅ Indexed ${events} pool events on chain ${chainId} from blocks ${fromBlock}-${head} (${confirmed} confirmed)`
+        );
+      }
+
+      return { fromBlock, toBlock: head, events, confirmed, ...(reorgedFrom !== null ? { reorgedFrom } : {}) };
+    } finally {
+      this.save(chainId, index);
+      this.syncing.delete(chainId);
+    }
+  }
+
+  /**
+   * First block after the fork point when the chain no longer has a block the index knows (null when there was
+   * no reorg). A reorg replaces every block after its fork point, so known blocks are checked newest first until
+   * one still matches; when none does, the whole index is read again from the deploymentBlock.
+   */
+  private async findReorg(source: PoolEventSource, index: ChainIndex, deploymentBlock: number): Promise<number | null> {
+    const known: Map<number, string> = new Map(Object.entries(index.blockHashes).map(([number, hash]) => [Number(number), hash]));
+    for (const record of Object.values(index.commitments)) {
+      known.set(record.blockNumber, known.get(record.blockNumber) || record.blockHash);
+    }
+
+    const blockNumbers = [...known.keys()].sort((a, b) => b - a);
+    let reorgedFrom: number | null = null;
+
+    for (const blockNumber of blockNumbers) {
+      if (await source.getBlockHash(blockNumber) === known.get(blockNumber)) {
+        return reorgedFrom === null ? null : blockNumber + 1;
+      }
+      reorgedFrom = deploymentBlock;
+    }
+
+    return reorgedFrom;
+  }
+
+  /**
+   * Drop everything indexed from a reorged block on, so those blocks are read again; confirmed commitments come
+   * back out of the Merkle tree
+   */
+  private async rollback(chain: ChainContext, index: ChainIndex, fromBlock: number): Promise<void> {
+    const { chainId } = chain.config;
+    const dropped = (records: Record<string, IndexedRecord>) =>
+      Object.keys(records).filter(key => records[key].blockNumber >= fromBlock);
+
+    const commitments = dropped(index.commitments);
+
+    const confirmedLeaves = commitments.map(key => index.commitments[key]).filter(r => r.confirmed).map(r => r.leafIndex);
+    if (confirmedLeaves.length > 0) {
+      chain.merkleTree.truncate(Math.min(...confirmedLeaves));
+    }
+
+    commitments.forEach(key => delete index.commitments[key]);
+    for (const blockNumber of Object.keys(index.blockHashes)) {
+      if (Number(blockNumber) >= fromBlock) {
+        delete index.blockHashes[blockNumber];
+      }
+    }
+    index.lastIndexedBlock = fromBlock - 1;
+
+    console.warn(
+      `⚠️  Reorg on chain ${chainId} from block ${fromBlock}: dropped ${commitments.length} commitments ` +
+      `(${confirmedLeaves.length} had been confirmed)`
+    );
+  }
+
+  private apply(index: ChainIndex, event: PoolEvent): void {
+    const indexed: IndexedRecord = {
+      event: event.name,
+      txHash: event.transactionHash,
+      blockNumber: event.blockNumber,
+      blockHash: event.blockHash,
+      confirmed: false
+    };
+
+    index.blockHashes[event.blockNumber] = index.blockHashes[event.blockNumber] || event.blockHash;
+
+    for (const { commitment, leafIndex } of event.commitments) {
+      if (!index.commitments[commitment]) {
+        index.commitments[commitment] = { commitment, leafIndex, ...indexed };
+      }
+    }
+  }
+
+  /**
+   * Confirm commitments deep enough below the head, appending them to the Merkle tree in leaf order
+   * Returns how many commitments were confirmed.
+   */
+  private async confirm(chain: ChainContext, index: ChainIndex): Promise<number> {
+    const { chainId } = chain.config;
+    const ready = (record: IndexedRecord) => !record.confirmed && this.confirmationsOf(index, record.blockNumber) >= this.confirmations;
+
+    const commitments = Object.values(index.commitments).filter(ready).sort((a, b) => a.leafIndex - b.leafIndex);
+
+    for (const record of commitments) {
+      if (!chain.merkleTree.hasCommitment(record.commitment)) {
+        const leafCount = chain.merkleTree.getLeafCount();
+        if (record.leafIndex !== leafCount) {
+          throw new Error(
+            `Commitment ${record.commitment.substring(0, 10)}... is leaf ${record.leafIndex} on chain ${chainId} ` +
+            `but the Merkle tree has ${leafCount} leaves; rebuild the tree from deposit events`
+          );
+        }
+        chain.merkleTree.insert(record.commitment);
+      }
+      record.confirmed = true;
+    }
+
+    return commitments.length;
+  }
+
+  private confirmationsOf(index: ChainIndex, blockNumber: number): number {
+    return index.head === null ? 0 : Math.max(0, index.head - blockNumber + 1);
+  }
+
+  /**
+   * Status of an indexed commitment (null when the indexer hasn't seen it)
+   * Commitments can't be linked to their nullifier without the note's secrets, so the owner passes the note's
+   * nullifierHash to learn whether it has been spent.
+   */
+  async getCommitmentStatus(
+    chainId: number,
+    commitment: string,
+    nullifierHash?: string
+  ): Promise<CommitmentStatusResult | null> {
+    const index = this.getIndex(chainId);
+    const record = index.commitments[commitment];
+
+    if (!record) {
+      return null;
+    }
+
+    let spend: CommitmentStatusResult['spend'] = null;
+    const registered = nullifierHash ? await nullifierRegistry.getRecord(chainId, nullifierHash) : null;
+
+    if (registered) {
+      spend = {
+        nullifierHash,
+        txHash: registered.txHash,
+        blockNumber: registered.blockNumber,
+        confirmations: registered.blockNumber !== undefined ? this.confirmationsOf(index, registered.blockNumber) : null
+      };
+    }
+
+    return {
+      chainId,
+      commitment,
+      status: spend ? 'spent' : record.confirmed ? 'confirmed' : 'pending',
+      leafIndex: record.leafIndex,
+      event: record.event,
+      txHash: record.txHash,
+      blockNumber: record.blockNumber,
+      confirmations: this.confirmationsOf(index, record.blockNumber),
+      spend
+    };
+  }
+}
+
+// Export singleton instance
+export const eventIndexer = new EventIndexerService();
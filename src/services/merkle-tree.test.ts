@@ -0,0 +1,60 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { MerkleTreeError, MerkleTreeService } from './merkle-tree';
+
+const CHAIN_ID = 11155111;
+
+describe('MerkleTreeService.rebuildFromEvents', () => {
+  let dir: string;
+  let tree: MerkleTreeService;
+
+  beforeEach(async () => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'merkle-tree-'));
+    process.env.MERKLE_TREE_DIR = dir;
+    process.env.MERKLE_TREE_DEPTH = '2';
+    tree = new MerkleTreeService(CHAIN_ID);
+    await tree.initialize();
+    tree.insert('11');
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+    delete process.env.MERKLE_TREE_DIR;
+    delete process.env.MERKLE_TREE_DEPTH;
+  });
+
+  it('replaces the leaves, canonicalising each commitment', () => {
+    tree.rebuildFromEvents([{ commitment: '0x02', leafIndex: 1 }, { commitment: '1', leafIndex: 0 }]);
+
+    expect(tree.getLeafCount()).toBe(2);
+    expect(tree.hasCommitment('2')).toBe(true);
+    expect(tree.hasCommitment('11')).toBe(false);
+    expect(tree.getPath('2')?.leafIndex).toBe(1);
+  });
+
+  it.each([
+    ['a gap in leaf indices', [{ commitment: '1', leafIndex: 0 }, { commitment: '2', leafIndex: 2 }]],
+    ['a repeated commitment', [{ commitment: '1', leafIndex: 0 }, { commitment: '0x1', leafIndex: 1 }]],
+    ['a commitment outside the field', [{ commitment: 'zz', leafIndex: 0 }]],
+    ['more leaves than the tree holds', [1, 2, 3, 4, 5].map((commitment, leafIndex) => ({ commitment: String(commitment), leafIndex }))]
+  ])('rejects %s and leaves the current tree in place', (_, events) => {
+    const root = tree.getRoot();
+
+    expect(() => tree.rebuildFromEvents(events)).toThrow(MerkleTreeError);
+
+    expect(tree.getRoot()).toBe(root);
+    expect(tree.hasCommitment('11')).toBe(true);
+  });
+
+  it('persists the rebuilt tree', async () => {
+    tree.rebuildFromEvents([{ commitment: '5', leafIndex: 0 }]);
+
+    const reloaded = new MerkleTreeService(CHAIN_ID);
+    await reloaded.initialize();
+
+    expect(reloaded.getRoot()).toBe(tree.getRoot());
+    expect(reloaded.hasCommitment('5')).toBe(true);
+  });
+});
@@ -0,0 +1,311 @@
+import { buildPoseidon } from 'circomlibjs';
+import * as fs from 'fs';
+import * as path from 'path';
+import { FieldElementError, toFieldElement } from '../utils/field';
+
+/**
+ * Merkle Tree Service
+ * Poseidon incremental Merkle tree over shielded commitments, serving roots and membership paths to wallets.
+ * The v1 unshield/transfer circuits take no root or path, so proofs don't yet show the input note was deposited;
+ * the tree is kept ready for Merkle-aware circuit versions. Each configured chain has its own tree (see chain-registry).
+ *
+ * Configured through:
+ *   MERKLE_TREE_DEPTH   - tree depth (default 20)
+ *   MERKLE_ROOT_HISTORY - how many recent roots are accepted as valid (default 30)
+ *   MERKLE_TREE_DIR     - where each chain's leaves and roots are persisted as merkle-tree-<chainId>.json (default data/)
+ */
+
+// Empty leaves hash to zero; each level's zero is Poseidon(zero, zero) of the level below
+const ZERO_VALUE = '0';
+
+export interface MerklePath {
+  root: string;
+  leafIndex: number;
+  pathElements: string[];
+  pathIndices: number[];
+}
+
+export interface DepositEvent {
+  commitment: string;
+  leafIndex: number;
+}
+
+interface PersistedTree {
+  depth: number;
+  leaves: string[];
+  roots: string[];
+}
+
+// Nodes by level (0 = leaves), leaf lookup and root history; a rebuild fills a new one and swaps it in
+interface TreeState {
+  layers: string[][];
+  leafIndices: Map<string, number>;
+  roots: string[];
+}
+
+/**
+ * Deposit events that can't form a tree: malformed, non-contiguous, duplicated or beyond capacity
+ */
+export class MerkleTreeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MerkleTreeError';
+  }
+}
+
+export class MerkleTreeService {
+  private poseidon: any;
+  private depth: number;
+  private rootHistorySize: number;
+  private filePath: string;
+  private zeros: string[] = [];
+  private tree: TreeState = { layers: [], leafIndices: new Map(), roots: [] };
+
+  constructor(chainId: number) {
+    this.depth = parseInt(process.env.MERKLE_TREE_DEPTH || '20', 10);
+    this.rootHistorySize = parseInt(process.env.MERKLE_ROOT_HISTORY || '30', 10);
+    this.filePath = path.resolve(
+      process.env.MERKLE_TREE_DIR || path.resolve(__dirname, '../../data'),
+      `merkle-tree-${chainId}.json`
+    );
+  }
+
+  /**
+   * Initialize the service (loads Poseidon and any persisted leaves)
+   */
+  async initialize(): Promise<void> {
+    console.log('🔧 Initializing MerkleTreeService...');
+    this.poseidon = await buildPoseidon();
+
+    this.zeros = [ZERO_VALUE];
+    for (let level = 1; level <= this.depth; level++) {
+      this.zeros.push(this.hash(this.zeros[level - 1], this.zeros[level - 1]));
+    }
+
+    this.tree = this.emptyTree();
+
+    if (fs.existsSync(this.filePath)) {
+      const persisted: PersistedTree = JSON.parse(fs.readFileSync(this.filePath, 'utf-8'));
+
+      if (persisted.depth !== this.depth) {
+        throw new Error(
+          `Persisted Merkle tree has depth ${persisted.depth}, expected ${this.depth}. Rebuild it from deposit events.`
+        );
+      }
+
+      for (const leaf of persisted.leaves) {
+        this.append(this.tree, leaf);
+      }
+      this.tree.roots = persisted.roots.slice(-this.rootHistorySize);
+    }
+
+    console.log(`✅ Merkle tree loaded (${this.getLeafCount()} leaves, depth ${this.depth})`);
+  }
+
+  private hash(left: string, right: string): string {
+    return this.poseidon.F.toString(this.poseidon([BigInt(left), BigInt(right)]));
+  }
+
+  private emptyTree(): TreeState {
+    return {
+      layers: Array.from({ length: this.depth + 1 }, () => []),
+      leafIndices: new Map(),
+      roots: []
+    };
+  }
+
+  private rootOf(tree: TreeState): string {
+    return tree.layers[this.depth][0] ?? this.zeros[this.depth];
+  }
+
+  /**
+   * Append a leaf and recompute the nodes on its path to the root
+   */
+  private append(tree: TreeState, commitment: string): number {
+    const leafIndex = tree.layers[0].length;
+
+    if (leafIndex >= 2 ** this.depth) {
+      throw new MerkleTreeError('Merkle tree is full');
+    }
+
+    tree.layers[0].push(commitment);
+    tree.leafIndices.set(commitment, leafIndex);
+
+    let index = leafIndex;
+    for (let level = 0; level < this.depth; level++) {
+      const node = tree.layers[level][index];
+      const sibling = tree.layers[level][index ^ 1] ?? this.zeros[level];
+      const parent = index % 2 === 0 ? this.hash(node, sibling) : this.hash(sibling, node);
+
+      index >>= 1;
+      tree.layers[level + 1][index] = parent;
+    }
+
+    tree.roots.push(this.rootOf(tree));
+    if (tree.roots.length > this.rootHistorySize) {
+      tree.roots.shift();
+    }
+
+    return leafIndex;
+  }
+
+  // Written to a temporary file and renamed over the old one, so a crash leaves either tree intact
+  private persist(tree: TreeState): void {
+    const persisted: PersistedTree = {
+      depth: this.depth,
+      leaves: tree.layers[0],
+      roots: tree.roots
+    };
+
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    fs.writeFileSync(`${this.filePath}.tmp`, JSON.stringify(persisted));
+    fs.renameSync(`${this.filePath}.tmp`, this.filePath);
+  }
+
+  /**
+   * Canonical commitments in leaf order; throws MerkleTreeError unless the events are well-formed, their leaf
+   * indices are contiguous from 0, each commitment appears once and they fit in the tree
+   */
+  private leavesFromEvents(events: DepositEvent[]): string[] {
+    const sorted = events.map((event, i) => {
+      if (!event || !Number.isSafeInteger(event.leafIndex) || event.leafIndex < 0) {
+        throw new MerkleTreeError(`events[${i}].leafIndex must be a non-negative integer`);
+      }
+      try {
+        return { commitment: toFieldElement(event.commitment, `events[${i}].commitment`), leafIndex: event.leafIndex };
+      } catch (error) {
+        if (error instanceof FieldElementError) {
+          throw new MerkleTreeError(error.message);
+        }
+        throw error;
+      }
+    }).sort((a, b) => a.leafIndex - b.leafIndex);
+
+    if (sorted.length > 2 ** this.depth) {
+      throw new MerkleTreeError(`${sorted.length} deposit events exceed the tree's ${2 ** this.depth} leaves`);
+    }
+
+    const seen = new Set<string>();
+    return sorted.map((event, i) => {
+      if (event.leafIndex !== i) {
+        throw new MerkleTreeError(`Deposit events are not contiguous: expected leaf ${i}, got ${event.leafIndex}`);
+      }
+      if (seen.has(event.commitment)) {
+        throw new MerkleTreeError(`Commitment ${event.commitment.substring(0, 10)}... appears at more than one leaf`);
+      }
+      seen.add(event.commitment);
+      return event.commitment;
+    });
+  }
+
+  /**
+   * Index a deposited commitment; returns its leaf index
+   */
+  insert(commitment: string): number {
+    const existing = this.tree.leafIndices.get(commitment);
+    if (existing !== undefined) {
+      return existing;
+    }
+
+    const leafIndex = this.append(this.tree, commitment);
+    this.persist(this.tree);
+
+    console.log(`🌳 Commitment ${commitment.substring(0, 10)}... inserted at leaf ${leafIndex}`);
+
+    return leafIndex;
+  }
+
+  /**
+   * Replace the tree with the commitments from a list of deposit events
+   * Leaf indices must be contiguous from 0, as emitted by the pool contract. The events are all checked and the
+   * new tree built and persisted before it replaces the current one, so a rejected rebuild changes nothing.
+   */
+  rebuildFromEvents(events: DepositEvent[]): void {
+    const leaves = this.leavesFromEvents(events);
+
+    console.log(`🌳 Rebuilding Merkle tree from ${leaves.length} deposit events...`);
+
+    const tree = this.emptyTree();
+    for (const leaf of leaves) {
+      this.append(tree, leaf);
+    }
+    this.persist(tree);
+    this.tree = tree;
+
+    console.log('✅ Merkle tree rebuilt, root:', this.getRoot().substring(0, 10) + '...');
+  }
+
+  /**
+   * Drop every leaf from leafCount on (deposits a reorg took back); the shorter tree is rebuilt and persisted
+   * before it replaces the current one
+   */
+  truncate(leafCount: number): void {
+    if (leafCount >= this.getLeafCount()) {
+      return;
+    }
+
+    const tree = this.emptyTree();
+    for (const leaf of this.tree.layers[0].slice(0, leafCount)) {
+      this.append(tree, leaf);
+    }
+    this.persist(tree);
+    this.tree = tree;
+
+    console.log(`🌳 Merkle tree truncated to ${leafCount} leaves, root:`, this.getRoot().substring(0, 10) + '...');
+  }
+
+  getRoot(): string {
+    return this.rootOf(this.tree);
+  }
+
+  getDepth(): number {
+    return this.depth;
+  }
+
+  getLeafCount(): number {
+    return this.tree.layers[0].length;
+  }
+
+  /**
+   * Recent roots, oldest first (a proof against any of them is still accepted)
+   */
+  getRecentRoots(): string[] {
+    return [...this.tree.roots];
+  }
+
+  isKnownRoot(root: string): boolean {
+    return root === this.getRoot() || this.tree.roots.includes(root);
+  }
+
+  hasCommitment(commitment: string): boolean {
+    return this.tree.leafIndices.has(commitment);
+  }
+
+  /**
+   * Get the membership path for a commitment, or null if it has not been indexed
+   */
+  getPath(commitment: string): MerklePath | null {
+    const { layers, leafIndices } = this.tree;
+    const leafIndex = leafIndices.get(commitment);
+    if (leafIndex === undefined) {
+      return null;
+    }
+
+    const pathElements: string[] = [];
+    const pathIndices: number[] = [];
+
+    let index = leafIndex;
+    for (let level = 0; level < this.depth; level++) {
+      pathElements.push(layers[level][index ^ 1] ?? this.zeros[level]);
+      pathIndices.push(index % 2);
+      index >>= 1;
+    }
+
+    return {
+      root: this.getRoot(),
+      leafIndex,
+      pathElements,
+      pathIndices
+    };
+  }
+}
@@ -0,0 +1,75 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { NoteDeliveryService, NoteStoreError } from './note-delivery';
+import { encryptNote, generateViewingKeyPair } from '../utils/note-encryption';
+
+const recipient = generateViewingKeyPair();
+
+function envelope(commitment = '1002003') {
+  return encryptNote({ commitment, secret: '1', nullifier: '2', randomness: '3', amount: '500', token: 'ETH' }, recipient.publicKey);
+}
+
+describe('NoteDeliveryService', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'note-delivery-'));
+    process.env.NOTE_STORE_FILE = path.join(dir, 'notes.jsonl');
+    process.env.VIEWING_KEY_STORE_FILE = path.join(dir, 'viewing-keys.json');
+    process.env.NOTE_STORE_MAX_NOTES = '3';
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+    delete process.env.NOTE_STORE_FILE;
+    delete process.env.VIEWING_KEY_STORE_FILE;
+    delete process.env.NOTE_STORE_MAX_NOTES;
+  });
+
+  async function open(): Promise<NoteDeliveryService> {
+    const service = new NoteDeliveryService();
+    await service.initialize();
+    return service;
+  }
+
+  it('appends one line per note and reloads them in order', async () => {
+    const service = await open();
+    service.publish(envelope('1'));
+    service.publish(envelope('2'));
+
+    expect(fs.readFileSync(process.env.NOTE_STORE_FILE!, 'utf-8').trim().split('\n')).toHaveLength(2);
+
+    const reloaded = await open();
+    expect(reloaded.list().map(note => [note.index, note.commitment])).toEqual([[0, '1'], [1, '2']]);
+    expect(reloaded.list(1, 1).map(note => note.commitment)).toEqual(['2']);
+  });
+
+  it('drops a partially written last line and keeps appending after it', async () => {
+    const service = await open();
+    service.publish(envelope('1'));
+    fs.appendFileSync(process.env.NOTE_STORE_FILE!, '{"version":1,"comm');
+
+    const reloaded = await open();
+    reloaded.publish(envelope('2'));
+
+    expect((await open()).list().map(note => note.commitment)).toEqual(['1', '2']);
+  });
+
+  it('refuses replayed, oversized and over-capacity notes', async () => {
+    const service = await open();
+    const first = envelope();
+    service.publish(first);
+
+    expect(() => service.publish(first)).toThrow(expect.objectContaining({ reason: 'duplicate' }));
+    expect(() => service.publish({ ...envelope(), ciphertext: '0x' + 'ab'.repeat(1025) }))
+      .toThrow(expect.objectContaining({ reason: 'tooLarge' }));
+
+    service.publish(envelope());
+    service.publish(envelope());
+    expect(() => service.publish(envelope())).toThrow(NoteStoreError);
+    expect(() => service.publish(envelope())).toThrow(expect.objectContaining({ reason: 'full' }));
+    expect(service.count()).toBe(3);
+  });
+});
@@ -0,0 +1,220 @@
+import { ethers } from 'ethers';
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  EncryptedNote,
+  NotePlaintext,
+  encryptNote,
+  isViewingPublicKey
+} from '../utils/note-encryption';
+
+/**
+ * Note Delivery Service
+ * Keeps recipients' viewing public keys and the encrypted notes addressed to them. Notes are appended to a log
+ * (one JSON envelope per line) and never rewritten; the log is capped so anonymous publishing can't grow it
+ * without bound.
+ *
+ * Configured through:
+ *   NOTE_STORE_FILE           - append-only log of encrypted notes (default data/notes.jsonl)
+ *   VIEWING_KEY_STORE_FILE    - registered viewing keys (default data/viewing-keys.json)
+ *   NOTE_STORE_MAX_NOTES      - notes kept before publishing is refused (default 100000)
+ *   NOTE_MAX_CIPHERTEXT_BYTES - largest accepted note ciphertext, GCM tag included (default 1024)
+ */
+
+export interface ViewingKeyRecord {
+  address: string;
+  viewingPublicKey: string;
+  registeredAt: string;
+}
+
+export interface StoredNote extends EncryptedNote {
+  index: number;  // position in the note log; scans page by it
+  createdAt: string;
+}
+
+export class NoteStoreError extends Error {
+  constructor(message: string, public reason: 'tooLarge' | 'duplicate' | 'full') {
+    super(message);
+    this.name = 'NoteStoreError';
+  }
+}
+
+/**
+ * Message an address signs to prove it controls the viewing key being registered
+ */
+export function viewingKeyRegistrationMessage(viewingPublicKey: string): string {
+  return `Register Veilon viewing key: ${viewingPublicKey.toLowerCase()}`;
+}
+
+export class NoteDeliveryService {
+  private notesPath: string;
+  private viewingKeysPath: string;
+  private maxNotes: number;
+  private maxCiphertextBytes: number;
+  private viewingKeys: Record<string, ViewingKeyRecord> = {};
+  private notes: StoredNote[] = [];
+  private ephemeralKeys: Set<string> = new Set();
+
+  constructor() {
+    this.notesPath = path.resolve(
+      process.env.NOTE_STORE_FILE || path.resolve(__dirname, '../../data/notes.jsonl')
+    );
+    this.viewingKeysPath = path.resolve(
+      process.env.VIEWING_KEY_STORE_FILE || path.resolve(__dirname, '../../data/viewing-keys.json')
+    );
+    this.maxNotes = parseInt(process.env.NOTE_STORE_MAX_NOTES || '100000', 10);
+    this.maxCiphertextBytes = parseInt(process.env.NOTE_MAX_CIPHERTEXT_BYTES || '1024', 10);
+  }
+
+  /**
+   * Initialize the service (loads persisted viewing keys and notes)
+   */
+  async initialize(): Promise<void> {
+    console.log('🔧 Initializing NoteDeliveryService...');
+
+    if (fs.existsSync(this.viewingKeysPath)) {
+      this.viewingKeys = JSON.parse(fs.readFileSync(this.viewingKeysPath, 'utf-8'));
+    }
+
+    if (fs.existsSync(this.notesPath)) {
+      this.loadNotes();
+    }
+
+    console.log(
+      `✅ Note store loaded (${Object.keys(this.viewingKeys).length} viewing keys, ${this.notes.length} notes)`
+    );
+  }
+
+  private loadNotes(): void {
+    const log = fs.readFileSync(this.notesPath, 'utf-8');
+
+    // A crash mid-append leaves a partial last line; cut it off so the next append starts on a fresh line
+    const complete = log.slice(0, log.lastIndexOf('\n') + 1);
+    if (complete.length < log.length) {
+      console.warn(`⚠️  Dropping a partially written note at the end of ${this.notesPath}`);
+      fs.truncateSync(this.notesPath, Buffer.byteLength(complete, 'utf-8'));
+    }
+
+    for (const line of complete.split('\n')) {
+      if (line) {
+        this.remember(JSON.parse(line));
+      }
+    }
+  }
+
+  private remember(note: Omit<StoredNote, 'index'>): StoredNote {
+    const stored: StoredNote = { ...note, index: this.notes.length };
+    this.notes.push(stored);
+    this.ephemeralKeys.add(note.ephemeralPublicKey.toLowerCase());
+    return stored;
+  }
+
+  private persistViewingKeys(): void {
+    fs.mkdirSync(path.dirname(this.viewingKeysPath), { recursive: true });
+    fs.writeFileSync(this.viewingKeysPath, JSON.stringify(this.viewingKeys));
+  }
+
+  /**
+   * Register a viewing public key for an address; the signature must come from that address
+   */
+  registerViewingKey(address: string, viewingPublicKey: string, signature: string): ViewingKeyRecord {
+    if (!ethers.isAddress(address)) {
+      throw new Error('Invalid address');
+    }
+
+    if (!isViewingPublicKey(viewingPublicKey)) {
+      throw new Error('Viewing public key must be 32 bytes of hex');
+    }
+
+    let signer: string;
+    try {
+      signer = ethers.verifyMessage(viewingKeyRegistrationMessage(viewingPublicKey), signature);
+    } catch {
+      throw new Error('Invalid signature');
+    }
+
+    if (signer.toLowerCase() !== address.toLowerCase()) {
+      throw new Error('Signature does not match address');
+    }
+
+    const record: ViewingKeyRecord = {
+      address: ethers.getAddress(address),
+      viewingPublicKey: viewingPublicKey.toLowerCase(),
+      registeredAt: new Date().toISOString()
+    };
+
+    this.viewingKeys[address.toLowerCase()] = record;
+    this.persistViewingKeys();
+
+    console.log(`🔑 Viewing key registered for ${record.address}`);
+
+    return record;
+  }
+
+  getViewingKey(address: string): ViewingKeyRecord | null {
+    if (!address) {
+      return null;
+    }
+    return this.viewingKeys[address.toLowerCase()] || null;
+  }
+
+  /**
+   * Encrypt a note to the recipient's viewing key and store it for scanning
+   */
+  deliver(note: NotePlaintext, recipientViewingPublicKey: string): StoredNote {
+    return this.publish(encryptNote(note, recipientViewingPublicKey));
+  }
+
+  /**
+   * Append a note that was encrypted elsewhere (e.g. by a wallet proving client-side) to the note log
+   * Throws NoteStoreError for oversized ciphertexts, replayed envelopes and when the log is full.
+   */
+  publish(encrypted: EncryptedNote): StoredNote {
+    const ciphertextBytes = (encrypted.ciphertext.length - 2) / 2;
+    if (ciphertextBytes > this.maxCiphertextBytes) {
+      throw new NoteStoreError(`Note ciphertext is ${ciphertextBytes} bytes; the limit is ${this.maxCiphertextBytes}`, 'tooLarge');
+    }
+
+    // Every encryption uses a fresh ephemeral key, so a repeated one is the same envelope published again
+    if (this.ephemeralKeys.has(encrypted.ephemeralPublicKey.toLowerCase())) {
+      throw new NoteStoreError('This note has already been published', 'duplicate');
+    }
+
+    if (this.notes.length >= this.maxNotes) {
+      throw new NoteStoreError(`Note store is full (${this.maxNotes} notes)`, 'full');
+    }
+
+    const entry = {
+      version: encrypted.version,
+      commitment: encrypted.commitment,
+      viewTag: encrypted.viewTag,
+      ephemeralPublicKey: encrypted.ephemeralPublicKey,
+      nonce: encrypted.nonce,
+      ciphertext: encrypted.ciphertext,
+      createdAt: new Date().toISOString()
+    };
+
+    fs.mkdirSync(path.dirname(this.notesPath), { recursive: true });
+    fs.appendFileSync(this.notesPath, JSON.stringify(entry) + '\n');
+    const stored = this.remember(entry);
+
+    console.log(`✉️  Encrypted note #${stored.index} stored for commitment ${encrypted.commitment.substring(0, 10)}...`);
+
+    return stored;
+  }
+
+  /**
+   * A page of the note log, oldest first, starting at a note index
+   * View tags can only be checked with a viewing private key, so recipients page through every note.
+   */
+  list(from = 0, limit = Infinity): StoredNote[] {
+    return this.notes.slice(from, from + limit);
+  }
+
+  count(): number {
+    return this.notes.length;
+  }
+}
+
+// Export singleton instance
+export const noteDelivery = new NoteDeliveryService();
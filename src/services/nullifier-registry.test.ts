@@ -0,0 +1,133 @@
+import { ethers } from 'ethers';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { POOL_ABI } from '../constants/pool-abi';
+import { ChainContext } from './chain-registry';
+import { FileNullifierStore, NullifierRegistryService } from './nullifier-registry';
+
+const CHAIN_ID = 11155111;
+const SPENT_TOPIC = new ethers.Interface(POOL_ABI).getEvent('NullifierSpent')!.topicHash;
+
+/**
+ * In-memory chain: block hashes derive from a fork label, so re-labelling blocks simulates a reorg
+ */
+class FakeChain {
+  head = 0;
+  forks: Record<number, string> = {};
+  spends: Array<{ blockNumber: number; nullifierHash: bigint }> = [];
+  provider: any;
+
+  constructor() {
+    const hashOf = (blockNumber: number) => ethers.id(`${this.forks[blockNumber] || 'a'}:${blockNumber}`);
+
+    this.provider = {
+      getBlockNumber: async () => this.head,
+      getBlock: async (blockNumber: number) => blockNumber <= this.head ? { hash: hashOf(blockNumber) } : null,
+      getLogs: async ({ address, fromBlock, toBlock }: any) => this.spends
+        .filter(spend => spend.blockNumber >= fromBlock && spend.blockNumber <= toBlock)
+        .map((spend, index) => ({
+          address,
+          topics: [SPENT_TOPIC, ethers.toBeHex(spend.nullifierHash, 32)],
+          data: '0x',
+          blockNumber: spend.blockNumber,
+          blockHash: hashOf(spend.blockNumber),
+          transactionHash: ethers.id(`tx:${spend.nullifierHash}`),
+          transactionIndex: 0,
+          index,
+          removed: false
+        }))
+    };
+    this.provider.provider = this.provider;
+  }
+
+  context(): ChainContext {
+    return {
+      config: { chainId: CHAIN_ID, poolAddress: '0x' + '11'.repeat(20), deploymentBlock: 1 },
+      provider: this.provider
+    } as unknown as ChainContext;
+  }
+}
+
+describe('NullifierRegistryService.syncFromChain', () => {
+  let dir: string;
+  let storeFile: string;
+  let chain: FakeChain;
+  let registry: NullifierRegistryService;
+
+  beforeEach(async () => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'nullifier-registry-'));
+    storeFile = path.join(dir, 'nullifiers.json');
+    process.env.INDEXER_CONFIRMATIONS = '3';
+    chain = new FakeChain();
+    registry = new NullifierRegistryService(new FileNullifierStore(storeFile));
+    await registry.initialize();
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+    delete process.env.INDEXER_CONFIRMATIONS;
+  });
+
+  it('records spends only once they are INDEXER_CONFIRMATIONS deep', async () => {
+    chain.head = 10;
+    chain.spends = [{ blockNumber: 7, nullifierHash: 7n }, { blockNumber: 9, nullifierHash: 9n }];
+
+    expect(await registry.syncFromChain(chain.context())).toEqual({ fromBlock: 1, toBlock: 8, imported: 1 });
+    expect(await registry.isSpent(CHAIN_ID, '7')).toBe(true);
+    expect(await registry.isSpent(CHAIN_ID, '9')).toBe(false);
+
+    chain.head = 12;
+    expect(await registry.syncFromChain(chain.context())).toEqual({ fromBlock: 9, toBlock: 10, imported: 1 });
+    expect(await registry.isSpent(CHAIN_ID, '9')).toBe(true);
+  });
+
+  it('rolls back spends a reorg dropped and reads the new blocks from the last checkpoint still on the chain', async () => {
+    chain.head = 10;
+    await registry.syncFromChain(chain.context());
+    chain.head = 14;
+    chain.spends = [{ blockNumber: 11, nullifierHash: 11n }];
+    await registry.syncFromChain(chain.context());
+    expect(await registry.isSpent(CHAIN_ID, '11')).toBe(true);
+
+    // Blocks 11 on are replaced; the spend moves to block 13 under another nullifier
+    for (let blockNumber = 11; blockNumber <= 16; blockNumber++) {
+      chain.forks[blockNumber] = 'b';
+    }
+    chain.head = 16;
+    chain.spends = [{ blockNumber: 13, nullifierHash: 13n }];
+
+    expect(await registry.syncFromChain(chain.context())).toEqual({ fromBlock: 9, toBlock: 14, imported: 1, reorgedFrom: 9 });
+    expect(await registry.isSpent(CHAIN_ID, '11')).toBe(false);
+    expect(await registry.isSpent(CHAIN_ID, '13')).toBe(true);
+  });
+
+  it('keeps syncing from a store written before checkpoints had hashes', async () => {
+    fs.writeFileSync(storeFile, JSON.stringify({ lastSyncedBlocks: { [CHAIN_ID]: 5 }, nullifiers: {} }));
+    const legacy = new NullifierRegistryService(new FileNullifierStore(storeFile));
+    await legacy.initialize();
+    chain.head = 10;
+
+    expect(await legacy.syncFromChain(chain.context())).toEqual({ fromBlock: 6, toBlock: 8, imported: 0 });
+  });
+});
+
+describe('NullifierRegistryService.rollback', () => {
+  it('forgets spends from the reorged block on, whichever source recorded them', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'nullifier-registry-'));
+    const registry = new NullifierRegistryService(new FileNullifierStore(path.join(dir, 'nullifiers.json')));
+    await registry.initialize();
+
+    await registry.recordSpend(CHAIN_ID, '1', { source: 'chain', blockNumber: 4 });
+    await registry.recordSpend(CHAIN_ID, '2', { source: 'relayer', blockNumber: 5 });
+    await registry.recordSpend(CHAIN_ID + 1, '3', { source: 'chain', blockNumber: 9 });
+
+    expect(await registry.rollback(CHAIN_ID, 5)).toBe(1);
+    expect(await registry.isSpent(CHAIN_ID, '1')).toBe(true);
+    expect(await registry.isSpent(CHAIN_ID, '2')).toBe(false);
+    expect(await registry.isSpent(CHAIN_ID + 1, '3')).toBe(true);
+
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+});
@@ -0,0 +1,319 @@
+import { ethers } from 'ethers';
+import * as fs from 'fs';
+import * as path from 'path';
+import { POOL_ABI } from '../constants/pool-abi';
+import { ChainContext, chainRegistry } from './chain-registry';
+
+/**
+ * Nullifier Registry Service
+ * Records spent nullifier hashes per chain so double-spends are refused before a proof is generated
+ *
+ * Configured through:
+ *   NULLIFIER_STORE_FILE       - file used by the default store (default data/nullifiers.json)
+ *   NULLIFIER_SYNC_INTERVAL_MS - poll each pool's NullifierSpent events at this interval (0/unset disables)
+ *   INDEXER_CONFIRMATIONS      - blocks deep a spend must be before sync records it, as for the event indexer (default 12)
+ *
+ * Sync reads every chain in the chain config that has a poolAddress, starting at its deploymentBlock. Each sync
+ * ends with a checkpoint of the last block read and its hash; when the chain no longer has that hash, spends
+ * after the newest checkpoint still on the chain are rolled back and read again.
+ */
+
+export interface NullifierSyncResult {
+  fromBlock: number;
+  toBlock: number;
+  imported: number;
+  reorgedFrom?: number;
+}
+
+export interface NullifierRecord {
+  chainId: number;
+  nullifierHash: string;
+  spentAt: string;
+  source: 'relayer' | 'chain';
+  txHash?: string;
+  blockNumber?: number;
+}
+
+export interface SyncCheckpoint {
+  blockNumber: number;
+  blockHash: string | null;  // null for checkpoints written before hashes were kept; trusted as they are
+}
+
+/**
+ * Storage backend for the registry; swap in another implementation (e.g. SQLite) via the constructor
+ */
+export interface NullifierStore {
+  load(): Promise<void>;
+  get(chainId: number, nullifierHash: string): Promise<NullifierRecord | null>;
+  put(record: NullifierRecord): Promise<void>;
+  count(): Promise<number>;
+  // Removes and returns the chain's records from blockNumber on
+  removeFrom(chainId: number, blockNumber: number): Promise<NullifierRecord[]>;
+  getCheckpoints(chainId: number): Promise<SyncCheckpoint[]>;  // oldest first
+  setCheckpoints(chainId: number, checkpoints: SyncCheckpoint[]): Promise<void>;
+}
+
+interface PersistedNullifiers {
+  checkpoints: Record<string, SyncCheckpoint[]>;
+  nullifiers: Record<string, NullifierRecord>;  // keyed by chainId:nullifierHash
+}
+
+/**
+ * JSON file store, rewritten on every change
+ */
+export class FileNullifierStore implements NullifierStore {
+  private filePath: string;
+  private data: PersistedNullifiers = { checkpoints: {}, nullifiers: {} };
+
+  constructor(filePath: string) {
+    this.filePath = path.resolve(filePath);
+  }
+
+  async load(): Promise<void> {
+    if (!fs.existsSync(this.filePath)) {
+      return;
+    }
+
+    const { lastSyncedBlocks, ...data } = JSON.parse(fs.readFileSync(this.filePath, 'utf-8'));
+    this.data = { checkpoints: {}, ...data };
+
+    // Stores from before checkpoints kept only the last synced block number
+    for (const [chainId, blockNumber] of Object.entries<number>(lastSyncedBlocks || {})) {
+      this.data.checkpoints[chainId] = this.data.checkpoints[chainId] || [{ blockNumber, blockHash: null }];
+    }
+  }
+
+  async get(chainId: number, nullifierHash: string): Promise<NullifierRecord | null> {
+    return this.data.nullifiers[`${chainId}:${nullifierHash}`] || null;
+  }
+
+  async put(record: NullifierRecord): Promise<void> {
+    this.data.nullifiers[`${record.chainId}:${record.nullifierHash}`] = record;
+    this.save();
+  }
+
+  async count(): Promise<number> {
+    return Object.keys(this.data.nullifiers).length;
+  }
+
+  async removeFrom(chainId: number, blockNumber: number): Promise<NullifierRecord[]> {
+    const removed = Object.entries(this.data.nullifiers).filter(([, record]) =>
+      record.chainId === chainId && record.blockNumber !== undefined && record.blockNumber >= blockNumber
+    );
+
+    if (removed.length > 0) {
+      removed.forEach(([key]) => delete this.data.nullifiers[key]);
+      this.save();
+    }
+    return removed.map(([, record]) => record);
+  }
+
+  async getCheckpoints(chainId: number): Promise<SyncCheckpoint[]> {
+    return [...(this.data.checkpoints[chainId] || [])];
+  }
+
+  async setCheckpoints(chainId: number, checkpoints: SyncCheckpoint[]): Promise<void> {
+    this.data.checkpoints[chainId] = checkpoints;
+    this.save();
+  }
+
+  private save(): void {
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    // Write then rename, so a crash mid-write leaves the previous file intact
+    fs.writeFileSync(`${this.filePath}.tmp`, JSON.stringify(this.data));
+    fs.renameSync(`${this.filePath}.tmp`, this.filePath);
+  }
+}
+
+// Blocks per eth_getLogs request, kept under common RPC provider limits
+const SYNC_BLOCK_RANGE = 5000;
+
+// Checkpoints kept per chain; a reorg older than all of them re-reads the chain from its deploymentBlock
+const MAX_CHECKPOINTS = 64;
+
+export class NullifierRegistryService {
+  private store: NullifierStore;
+  private confirmations: number;
+  private syncTimer?: NodeJS.Timeout;
+  private syncing: Set<number> = new Set();
+
+  constructor(store?: NullifierStore) {
+    this.store = store || new FileNullifierStore(
+      process.env.NULLIFIER_STORE_FILE || path.resolve(__dirname, '../../data/nullifiers.json')
+    );
+    this.confirmations = Math.max(1, parseInt(process.env.INDEXER_CONFIRMATIONS || '12', 10));
+  }
+
+  /**
+   * Initialize the service (loads the store and starts event sync if configured)
+   */
+  async initialize(): Promise<void> {
+    console.log('🔧 Initializing NullifierRegistryService...');
+    await this.store.load();
+    console.log(`✅ Nullifier registry loaded (${await this.store.count()} spent)`);
+
+    const interval = parseInt(process.env.NULLIFIER_SYNC_INTERVAL_MS || '0', 10);
+    if (interval > 0 && this.getSyncableChains().length > 0) {
+      const sync = () => this.syncAll().catch(error => {
+        console.error('❌ Nullifier sync failed:', error.message);
+      });
+
+      await sync();
+      this.syncTimer = setInterval(sync, interval);
+      this.syncTimer.unref();
+    }
+  }
+
+  async isSpent(chainId: number, nullifierHash: string): Promise<boolean> {
+    return (await this.store.get(chainId, nullifierHash)) !== null;
+  }
+
+  async getRecord(chainId: number, nullifierHash: string): Promise<NullifierRecord | null> {
+    return this.store.get(chainId, nullifierHash);
+  }
+
+  /**
+   * Record a confirmed spend; the first confirmation wins until a reorg rolls it back
+   */
+  async recordSpend(
+    chainId: number,
+    nullifierHash: string,
+    details: Pick<NullifierRecord, 'source' | 'txHash' | 'blockNumber'>
+  ): Promise<void> {
+    if (await this.isSpent(chainId, nullifierHash)) {
+      return;
+    }
+
+    await this.store.put({
+      chainId,
+      nullifierHash,
+      spentAt: new Date().toISOString(),
+      ...details
+    });
+
+    console.log(`🚫 Nullifier ${nullifierHash.substring(0, 10)}... marked as spent on chain ${chainId}`);
+  }
+
+  /**
+   * Forget a chain's spends from a reorged block on, whichever source recorded them, so sync reads them again
+   */
+  async rollback(chainId: number, fromBlock: number): Promise<number> {
+    const removed = await this.store.removeFrom(chainId, fromBlock);
+    const checkpoints = await this.store.getCheckpoints(chainId);
+    await this.store.setCheckpoints(chainId, checkpoints.filter(checkpoint => checkpoint.blockNumber < fromBlock));
+
+    if (removed.length > 0) {
+      console.warn(`⚠️  Reorg on chain ${chainId} from block ${fromBlock}: ${removed.length} spent nullifiers rolled back`);
+    }
+    return removed.length;
+  }
+
+  /**
+   * Chains with a deployed pool to read NullifierSpent events from
+   */
+  getSyncableChains(): ChainContext[] {
+    return chainRegistry.list().filter(chain => chain.config.poolAddress);
+  }
+
+  /**
+   * Sync every chain with a pool; one failing chain doesn't stop the others
+   */
+  async syncAll(): Promise<Array<{ chainId: number; error?: string } & Partial<NullifierSyncResult>>> {
+    const results = [];
+
+    for (const chain of this.getSyncableChains()) {
+      try {
+        results.push({ chainId: chain.config.chainId, ...await this.syncFromChain(chain) });
+      } catch (error: any) {
+        console.error(`❌ Nullifier sync failed for chain ${chain.config.chainId}:`, error.message);
+        results.push({ chainId: chain.config.chainId, error: error.message });
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * Newest checkpoint whose block still has the same hash (null when none does, or there are none)
+   */
+  private async findLastValidCheckpoint(chain: ChainContext, checkpoints: SyncCheckpoint[]): Promise<SyncCheckpoint | null> {
+    for (let i = checkpoints.length - 1; i >= 0; i--) {
+      const { blockNumber, blockHash } = checkpoints[i];
+      if (blockHash === null || (await chain.provider.getBlock(blockNumber))?.hash === blockHash) {
+        return checkpoints[i];
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Import NullifierSpent events from a chain's pool contract, up to the newest block INDEXER_CONFIRMATIONS deep,
+   * after rolling back any spends a reorg dropped since the last sync
+   */
+  async syncFromChain(chain: ChainContext): Promise<NullifierSyncResult> {
+    const { chainId, poolAddress, deploymentBlock } = chain.config;
+    const provider = chain.provider;
+
+    if (!poolAddress) {
+      throw new Error(`No pool contract configured for chain ${chainId}`);
+    }
+
+    if (this.syncing.has(chainId)) {
+      throw new Error(`Nullifier sync already in progress for chain ${chainId}`);
+    }
+
+    this.syncing.add(chainId);
+
+    try {
+      const pool = new ethers.Contract(poolAddress, POOL_ABI, provider);
+      const checkpoints = await this.store.getCheckpoints(chainId);
+      const lastValid = await this.findLastValidCheckpoint(chain, checkpoints);
+
+      let reorgedFrom: number | undefined;
+      if (checkpoints.length > 0 && lastValid !== checkpoints[checkpoints.length - 1]) {
+        reorgedFrom = lastValid ? lastValid.blockNumber + 1 : deploymentBlock;
+        await this.rollback(chainId, reorgedFrom);
+      }
+
+      const fromBlock = lastValid ? lastValid.blockNumber + 1 : deploymentBlock;
+      const toBlock = await provider.getBlockNumber() - this.confirmations + 1;
+
+      let imported = 0;
+
+      for (let start = fromBlock; start <= toBlock; start += SYNC_BLOCK_RANGE) {
+        const end = Math.min(start + SYNC_BLOCK_RANGE - 1, toBlock);
+        const events = await pool.queryFilter(pool.filters.NullifierSpent(), start, end);
+
+        for (const event of events) {
+          const nullifierHash = (event as ethers.EventLog).args.nullifierHash.toString();
+
+          if (!(await this.isSpent(chainId, nullifierHash))) {
+            await this.recordSpend(chainId, nullifierHash, {
+              source: 'chain',
+              txHash: event.transactionHash,
+              blockNumber: event.blockNumber
+            });
+            imported++;
+          }
+        }
+
+        const block = await provider.getBlock(end);
+        await this.store.setCheckpoints(chainId, [
+          ...(await this.store.getCheckpoints(chainId)),
+          { blockNumber: end, blockHash: block?.hash ?? null }
+        ].slice(-MAX_CHECKPOINTS));
+      }
+
+      if (imported > 0) {
+        console.log(`✅ Synced ${imported} nullifiers on chain ${chainId} from blocks ${fromBlock}-${toBlock}`);
+      }
+
+      return { fromBlock, toBlock, imported, ...(reorgedFrom !== undefined ? { reorgedFrom } : {}) };
+    } finally {
+      this.syncing.delete(chainId);
+    }
+  }
+}
+
+// Export singleton instance
+export const nullifierRegistry = new NullifierRegistryService();
@@ -0,0 +1,64 @@
+import { ethers } from 'ethers';
+import * as fs from 'fs';
+import * as snarkjs from 'snarkjs';
+import { beforeAll, describe, expect, it } from 'vitest';
+import { ProofGeneratorService } from './proof-generator';
+
+const hex = (value: string | number) => ethers.toBeHex(BigInt(value), 32);
+
+// A proof as snarkjs returns it: decimal projective coordinates, G2 limbs in (c0, c1) order
+const proof = {
+  pi_a: ['1', '2', '1'],
+  pi_b: [['3', '4'], ['5', '6'], ['1', '0']],
+  pi_c: ['7', '8', '1'],
+  protocol: 'groth16',
+  curve: 'bn128'
+};
+
+describe('ProofGeneratorService.exportSolidityCalldata', () => {
+  const generator = new ProofGeneratorService();
+
+  it('drops the projective coordinate and swaps the G2 limbs for the verifier', async () => {
+    const calldata = await generator.exportSolidityCalldata(proof, ['9', '10']);
+
+    expect(calldata.a).toEqual([hex(1), hex(2)]);
+    expect(calldata.b).toEqual([[hex(4), hex(3)], [hex(6), hex(5)]]);
+    expect(calldata.c).toEqual([hex(7), hex(8)]);
+    expect(calldata.input).toEqual([hex(9), hex(10)]);
+  });
+
+  it('ABI-encodes a, b, c and input in that order', async () => {
+    const calldata = await generator.exportSolidityCalldata(proof, ['9', '10', '11']);
+
+    const [a, b, c, input] = ethers.AbiCoder.defaultAbiCoder().decode(
+      ['uint256[2]', 'uint256[2][2]', 'uint256[2]', 'uint256[3]'],
+      calldata.encoded
+    );
+
+    expect(a.map(hex)).toEqual(calldata.a);
+    expect(b.map((pair: bigint[]) => pair.map(hex))).toEqual(calldata.b);
+    expect(c.map(hex)).toEqual(calldata.c);
+    expect(input.map(hex)).toEqual(calldata.input);
+  });
+});
+
+describe('ProofGeneratorService calldata for a real proof', () => {
+  const generator = new ProofGeneratorService();
+
+  beforeAll(async () => {
+    await generator.initialize();
+  });
+
+  it('returns calldata matching the proof and its public signals', async () => {
+    const result = await generator.generateShieldProof({ amount: '1000', calldata: true });
+    const calldata = result.calldata!;
+    expect(result.mock).toBe(false);
+
+    expect(calldata.input).toEqual(result.publicSignals.map(hex));
+    expect(calldata.a).toEqual(result.proof.pi_a.slice(0, 2).map(hex));
+    expect(calldata.b).toEqual(result.proof.pi_b.slice(0, 2).map((pair: string[]) => [hex(pair[1]), hex(pair[0])]));
+
+    const vKey = JSON.parse(fs.readFileSync(generator.getArtifactPaths('shield').vkeyPath, 'utf-8'));
+    expect(await snarkjs.groth16.verify(vKey, result.publicSignals, result.proof)).toBe(true);
+  }, 60_000);
+});
@@ -1,12 +1,40 @@
 import * as snarkjs from 'snarkjs';
 import { buildPoseidon } from 'circomlibjs';
+import { ethers } from 'ethers';
 import * as crypto from 'crypto';
 import * as fs from 'fs';
 import * as path from 'path';
+import {
+  CircuitManifest,
+  CircuitManifestEntry,
+  CircuitVersionError,
+  checkCircuitArtifacts,
+  readCircuitManifest,
+  resolveArtifactPath
+} from './circuit-manifest';
+import {
+  CircuitSignals,
+  DecodedSignals,
+  ShieldSignals,
+  TransferSignals,
+  UnshieldSignals,
+  decodePublicSignals,
+  encodePublicSignals
+} from './public-signals';
+import { RecipientError, decodeRecipient, encodePayoutRecipient, encodeRecipient } from '../utils/recipient';
+import { isFieldElement, parseFieldElement, randomFieldElement, toFieldElement } from '../utils/field';
 
 /**
  * Proof Generator Service
- * Generates zero-knowledge proofs for shield, unshield, and transfer operations
+ * Generates zero-knowledge proofs for shield, unshield, and transfer operations.
+ * Artifact paths, hashes and signal layouts come from the circuits directory's manifest.json.
+ *
+ * Configured through:
+ *   PROOF_MODE - 'real' (refuse to start without every circuit's wasm, zkey and verification key),
+ *                'mock' (always return mock proofs) or 'auto' (mock only the circuits whose artifacts
+ *                are missing); default 'auto'. Mock proofs are flagged with mock: true and never verify.
+ *   CIRCUIT_DEPRECATION_WINDOW_DAYS - how long a circuit version marked deprecatedAt in the manifest can still
+ *                be used for proving (default 90); proofs from retired versions can still be verified
  */
 
 export interface ProofInputs {
@@ -14,13 +42,20 @@ export interface ProofInputs {
   secret?: string;
   nullifier?: string;
   randomness?: string;
-  recipient?: string;
+  recipient?: string;  // Address; encoded as a field element by utils/recipient
   commitment?: string;
+  circuitVersion?: string;  // Defaults to the latest version in the manifest
+  calldata?: boolean;  // Also return the proof formatted for the Solidity verifier
 }
 
 export interface ProofResult {
   proof: any;
   publicSignals: string[];
+  decodedSignals: DecodedSignals;
+  mock: boolean;
+  circuitVersion: string;
+  calldata?: SolidityCalldata;
+  recipient?: string | null;  // Address the proof binds (decoded from the recipient signal), null for none
   commitment?: string;
   nullifier?: string;
   secret?: string;
@@ -29,107 +64,491 @@ export interface ProofResult {
   outputCommitment?: string;
 }
 
+export type CircuitType = 'shield' | 'unshield' | 'transfer';
+
+export const CIRCUIT_TYPES: CircuitType[] = ['shield', 'unshield', 'transfer'];
+
+export type ProofStage = 'witness' | 'proving' | 'verifying';
+
+export type ProofMode = 'real' | 'mock' | 'auto';
+
+export const PROOF_MODES: ProofMode[] = ['real', 'mock', 'auto'];
+
+export type ProgressCallback = (stage: ProofStage) => void;
+
+// Witness fields that reveal a note's spending secrets
+export const PRIVATE_INPUT_FIELDS = [
+  'secret',
+  'nullifier',
+  'randomness',
+  'inputSecret',
+  'inputNullifier',
+  'inputRandomness',
+  'outputSecret',
+  'outputNullifier',
+  'outputRandomness',
+  'changeSecret',
+  'changeNullifier',
+  'changeRandomness',
+  'spendingKey'  // deterministic note derivation
+];
+
+// Note secrets that are canonicalised to decimal field elements before proving
+const NOTE_SECRET_FIELDS = [
+  'secret',
+  'nullifier',
+  'randomness',
+  'inputSecret',
+  'inputNullifier',
+  'inputRandomness',
+  'outputSecret',
+  'outputNullifier',
+  'outputRandomness',
+  'changeSecret',
+  'changeNullifier',
+  'changeRandomness'
+];
+
+export class PrivateInputsRejectedError extends Error {
+  fields: string[];
+
+  constructor(fields: string[]) {
+    super(
+      fields.length > 0
+        ? `Private witness fields are not accepted in no-secrets mode: ${fields.join(', ')}`
+        : 'Server-side proving is disabled in no-secrets mode. Prove locally and submit the proof.'
+    );
+    this.name = 'PrivateInputsRejectedError';
+    this.fields = fields;
+  }
+}
+
+export interface CircuitArtifacts {
+  wasmPath: string;
+  zkeyPath: string;
+  vkeyPath: string;
+}
+
+// uint256 values as 0x-prefixed hex, in snarkjs's exportSolidityCallData order
+export interface SolidityCalldata {
+  a: [string, string];
+  b: [[string, string], [string, string]];
+  c: [string, string];
+  input: string[];
+  encoded: string;  // abi.encode(a, b, c, input)
+}
+
+// snarkjs's package exports don't expose its templates, so locate them next to its entry point
+const GROTH16_VERIFIER_TEMPLATE = path.resolve(
+  path.dirname(require.resolve('snarkjs')),
+  '../templates/verifier_groth16.sol.ejs'
+);
+
+export type CircuitVersionStatus = 'active' | 'deprecated' | 'retired';
+
+export interface CircuitVersionInfo {
+  version: string;
+  latest: boolean;
+  status: CircuitVersionStatus;
+  deprecatedAt: string | null;
+  retiresAt: string | null;
+}
+
+export interface VerificationResult {
+  valid: boolean;
+  reason: string;
+  circuitVersion?: string;
+  decodedSignals?: DecodedSignals;  // only for valid proofs
+  recipient?: string | null;
+  expectedSignals?: number;
+  receivedSignals?: number;
+}
+
 export class ProofGeneratorService {
   private poseidon: any;
   private circuitsPath: string;
+  private verificationKeys: Map<string, any> = new Map();  // keyed by circuitType@version
+  private noSecrets: boolean;
+  private manifest!: CircuitManifest;
+  private proofMode: ProofMode;
+  private mockCircuits: Set<string> = new Set();  // circuitType@version
+  private deprecationWindowMs: number;
 
   constructor(circuitsPath: string = '../../circuits') {
     this.circuitsPath = path.resolve(__dirname, circuitsPath);
+    // In no-secrets mode clients prove locally; this service only verifies and relays
+    this.noSecrets = process.env.NO_SECRETS_MODE === 'true';
+    this.proofMode = (process.env.PROOF_MODE || 'auto') as ProofMode;
+    this.deprecationWindowMs = parseInt(process.env.CIRCUIT_DEPRECATION_WINDOW_DAYS || '90', 10) * 24 * 60 * 60 * 1000;
+  }
+
+  getCircuitsPath(): string {
+    return this.circuitsPath;
+  }
+
+  isNoSecretsMode(): boolean {
+    return this.noSecrets;
+  }
+
+  /**
+   * Whether proofs for a circuit version (default latest) are mocked
+   * Decided when circuits are loaded, from PROOF_MODE and the artifacts on disk
+   */
+  isMockCircuit(circuitType: CircuitType, version?: string): boolean {
+    const entry = this.findVersion(circuitType, version);
+    return !entry || this.mockCircuits.has(`${circuitType}@${entry.version}`);
+  }
+
+  /**
+   * Configured proof mode and the effective mode of each loaded circuit version
+   */
+  getProofMode(): { configured: ProofMode; circuits: Record<CircuitType, Record<string, 'real' | 'mock'>> } {
+    const circuits = {} as Record<CircuitType, Record<string, 'real' | 'mock'>>;
+    for (const circuitType of CIRCUIT_TYPES) {
+      circuits[circuitType] = {};
+      for (const { version } of this.manifest.circuits[circuitType]) {
+        circuits[circuitType][version] = this.isMockCircuit(circuitType, version) ? 'mock' : 'real';
+      }
+    }
+    return { configured: this.proofMode, circuits };
+  }
+
+  /**
+   * List the private witness fields present in a request payload
+   */
+  findPrivateInputs(payload: Record<string, any>): string[] {
+    return PRIVATE_INPUT_FIELDS.filter(field => payload?.[field] !== undefined);
+  }
+
+  /**
+   * Throw PrivateInputsRejectedError in no-secrets mode, naming any private fields that were sent
+   */
+  assertServerProvingAllowed(payload: Record<string, any>): void {
+    if (this.noSecrets) {
+      throw new PrivateInputsRejectedError(this.findPrivateInputs(payload));
+    }
+  }
+
+  /**
+   * Paths of the compiled circuit, proving key and verification key for a circuit version (default latest)
+   */
+  getArtifactPaths(circuitType: CircuitType, version?: string): CircuitArtifacts {
+    const entry = this.resolveCircuitVersion(circuitType, version);
+    return {
+      wasmPath: resolveArtifactPath(this.circuitsPath, entry, 'wasm'),
+      zkeyPath: resolveArtifactPath(this.circuitsPath, entry, 'zkey'),
+      vkeyPath: resolveArtifactPath(this.circuitsPath, entry, 'vkey')
+    };
+  }
+
+  /**
+   * Describe the artifacts a client needs to prove locally (version, sizes, SHA-256 hashes, signal layout)
+   */
+  getCircuitMetadata(circuitType: CircuitType, version?: string) {
+    const entry = this.resolveCircuitVersion(circuitType, version);
+    const { wasmPath, zkeyPath } = this.getArtifactPaths(circuitType, entry.version);
+
+    // Hashes were checked against the manifest when the circuits were loaded
+    const describe = (filePath: string, sha256: string) => fs.existsSync(filePath)
+      ? { size: fs.statSync(filePath).size, sha256 }
+      : null;
+
+    return {
+      circuitType,
+      name: entry.name,
+      ...this.getCircuitVersionInfo(circuitType, entry.version),
+      mode: this.isMockCircuit(circuitType, entry.version) ? 'mock' : 'real',
+      wasm: describe(wasmPath, entry.sha256.wasm),
+      zkey: describe(zkeyPath, entry.sha256.zkey),
+      vkeySha256: entry.sha256.vkey,
+      nPublic: entry.publicSignals.length,
+      publicSignals: entry.publicSignals
+    };
+  }
+
+  /**
+   * Loaded versions of a circuit, oldest first
+   */
+  listCircuitVersions(circuitType: CircuitType): string[] {
+    return this.manifest.circuits[circuitType].map(entry => entry.version);
+  }
+
+  getLatestVersion(circuitType: CircuitType): string {
+    const entries = this.manifest.circuits[circuitType];
+    return entries[entries.length - 1].version;
+  }
+
+  private findVersion(circuitType: CircuitType, version?: string): CircuitManifestEntry | null {
+    const entries = this.manifest.circuits[circuitType];
+    if (!entries) {
+      return null;
+    }
+    if (version === undefined || version === null || version === '') {
+      return entries[entries.length - 1];
+    }
+    return entries.find(entry => entry.version === String(version)) || null;
   }
 
   /**
-   * Initialize the service (loads Poseidon hash function)
+   * Manifest entry for a circuit version (default latest); throws CircuitVersionError for unknown versions
+   */
+  resolveCircuitVersion(circuitType: CircuitType, version?: string): CircuitManifestEntry {
+    const entry = this.findVersion(circuitType, version);
+
+    if (!entry) {
+      throw new CircuitVersionError(
+        `Unknown ${circuitType} circuit version ${version} (available: ${(this.manifest.circuits[circuitType] || []).map(e => e.version).join(', ')})`
+      );
+    }
+
+    return entry;
+  }
+
+  /**
+   * Deprecation status of a circuit version: deprecated versions keep proving until the window ends, then retire
+   */
+  getCircuitVersionInfo(circuitType: CircuitType, version?: string): CircuitVersionInfo {
+    const entry = this.resolveCircuitVersion(circuitType, version);
+    const latest = entry.version === this.getLatestVersion(circuitType);
+
+    if (!entry.deprecatedAt) {
+      return { version: entry.version, latest, status: 'active', deprecatedAt: null, retiresAt: null };
+    }
+
+    const deprecatedAt = new Date(entry.deprecatedAt);
+    const retiresAt = new Date(deprecatedAt.getTime() + this.deprecationWindowMs);
+    const now = Date.now();
+
+    return {
+      version: entry.version,
+      latest,
+      status: now >= retiresAt.getTime() ? 'retired' : now >= deprecatedAt.getTime() ? 'deprecated' : 'active',
+      deprecatedAt: deprecatedAt.toISOString(),
+      retiresAt: retiresAt.toISOString()
+    };
+  }
+
+  /**
+   * Resolve the version to prove with; throws CircuitVersionError if it is unknown or retired
+   */
+  assertProvingVersion(circuitType: CircuitType, version?: string): CircuitVersionInfo {
+    const info = this.getCircuitVersionInfo(circuitType, version);
+
+    if (info.status === 'retired') {
+      throw new CircuitVersionError(
+        `${circuitType} circuit version ${info.version} was retired on ${info.retiresAt}; use version ${this.getLatestVersion(circuitType)}`,
+        true
+      );
+    }
+
+    return info;
+  }
+
+  /**
+   * Map a proof's publicSignals to named fields using the circuit version's layout (default latest)
+   * Throws PublicSignalsError unless there are exactly as many signals as the verification key's nPublic
+   */
+  decodePublicSignals<T extends CircuitType>(
+    circuitType: T,
+    publicSignals: string[],
+    version?: string
+  ): CircuitSignals[T] {
+    const entry = this.resolveCircuitVersion(circuitType, version);
+    const vKey = this.loadVerificationKey(circuitType, entry.version);
+
+    // Mocked versions may have no verification key; the manifest layout was checked against it when present
+    const nPublic = vKey ? vKey.nPublic : entry.publicSignals.length;
+
+    return decodePublicSignals(circuitType, entry.publicSignals, nPublic, publicSignals);
+  }
+
+  /**
+   * Lay out named fields as publicSignals in the circuit version's order (default latest)
+   */
+  encodePublicSignals<T extends CircuitType>(circuitType: T, signals: CircuitSignals[T], version?: string): string[] {
+    const entry = this.resolveCircuitVersion(circuitType, version);
+    return encodePublicSignals(circuitType, entry.publicSignals, signals);
+  }
+
+  /**
+   * Initialize the service (loads Poseidon and validates the circuit manifest)
    */
   async initialize(): Promise<void> {
     console.log('🔧 Initializing ProofGeneratorService...');
+
+    if (!PROOF_MODES.includes(this.proofMode)) {
+      throw new Error(`Invalid PROOF_MODE "${this.proofMode}" (expected ${PROOF_MODES.join(', ')})`);
+    }
+
     this.poseidon = await buildPoseidon();
     console.log('✅ Poseidon hash function loaded');
+
+    await this.loadCircuits();
+  }
+
+  /**
+   * Re-read the manifest and artifacts (e.g. after deploying a new circuit version) without restarting
+   * The running circuits stay in place if the new set fails validation
+   */
+  async reloadCircuits(): Promise<{ previous: Record<CircuitType, string[]>; current: Record<CircuitType, string[]> }> {
+    const previous = this.getCircuitVersions();
+    await this.loadCircuits();
+    const current = this.getCircuitVersions();
+
+    console.log(
+      '🔁 Circuits reloaded:',
+      CIRCUIT_TYPES.map(t => `${t} [${previous[t].join(', ')}] -> [${current[t].join(', ')}]`).join('; ')
+    );
+
+    return { previous, current };
+  }
+
+  getCircuitVersions(): Record<CircuitType, string[]> {
+    const versions = {} as Record<CircuitType, string[]>;
+    for (const circuitType of CIRCUIT_TYPES) {
+      versions[circuitType] = this.listCircuitVersions(circuitType);
+    }
+    return versions;
+  }
+
+  /**
+   * Validate the manifest against the artifacts on disk, then swap it in along with the resulting mock set
+   */
+  private async loadCircuits(): Promise<void> {
+    const manifest = readCircuitManifest(this.circuitsPath, CIRCUIT_TYPES);
+    const mockCircuits: Set<string> = new Set();
+
+    for (const circuitType of CIRCUIT_TYPES) {
+      for (const entry of manifest.circuits[circuitType]) {
+        const missing = await checkCircuitArtifacts(this.circuitsPath, circuitType, entry);
+
+        if (this.proofMode === 'real' && missing.length > 0) {
+          throw new Error(
+            `PROOF_MODE=real but ${circuitType} v${entry.version} circuit artifacts are missing: ${missing.join(', ')}`
+          );
+        }
+
+        if (this.proofMode === 'mock' || missing.length > 0) {
+          mockCircuits.add(`${circuitType}@${entry.version}`);
+        }
+      }
+    }
+
+    this.manifest = manifest;
+    this.mockCircuits = mockCircuits;
+    this.verificationKeys.clear();
+
+    console.log(
+      '✅ Circuit manifest loaded:',
+      CIRCUIT_TYPES.map(t => `${t} ${manifest.circuits[t].map(e => 'v' + e.version).join('/')}`).join(', ')
+    );
+
+    if (this.mockCircuits.size > 0) {
+      console.warn(
+        `⚠️  Proof mode ${this.proofMode}: mock proofs for ${[...this.mockCircuits].join(', ')} (${this.circuitsPath}). ` +
+        'Mock proofs do not verify and must not be submitted on chain.'
+      );
+    } else {
+      console.log(`✅ Proof mode ${this.proofMode}: all circuits use real proofs (${this.circuitsPath})`);
+    }
   }
 
   /**
-   * Generate a random field element
+   * Copy of the inputs with every note secret present in canonical decimal form
+   * Throws FieldElementError (named after the field, under the given prefix) for values that aren't field elements.
    */
-  private randomFieldElement(): string {
-    const bytes = crypto.randomBytes(31); // Use 31 bytes to stay within field size
-    return BigInt('0x' + bytes.toString('hex')).toString();
+  private canonicalSecrets<T extends Record<string, any>>(inputs: T, prefix = ''): T {
+    const canonical: Record<string, any> = { ...inputs };
+    for (const key of NOTE_SECRET_FIELDS) {
+      if (inputs[key]) {
+        canonical[key] = toFieldElement(inputs[key], prefix + key);
+      }
+    }
+    return canonical as T;
   }
 
   /**
    * Hash using Poseidon
    */
-  private hash(...inputs: (string | bigint)[]): string {
-    const bigInts = inputs.map(i => typeof i === 'string' ? BigInt(i) : i);
-    const hash = this.poseidon(bigInts);
+  private hash(...inputs: bigint[]): string {
+    const hash = this.poseidon(inputs);
     return this.poseidon.F.toString(hash);
   }
 
   /**
    * Generate commitment: H(secret, nullifier, randomness)
+   * v1 commitments don't bind the token, which is why the registry only admits the native asset to the pool
    */
   generateCommitment(secret: string, nullifier: string, randomness: string): string {
-    return this.hash(secret, nullifier, randomness);
+    return this.hash(
+      parseFieldElement(secret, 'secret'),
+      parseFieldElement(nullifier, 'nullifier'),
+      parseFieldElement(randomness, 'randomness')
+    );
   }
 
   /**
    * Generate nullifier hash: H(nullifier, randomness)
    */
   generateNullifierHash(nullifier: string, randomness: string): string {
-    return this.hash(nullifier, randomness);
+    return this.hash(parseFieldElement(nullifier, 'nullifier'), parseFieldElement(randomness, 'randomness'));
   }
 
   /**
    * Generate shield proof
    * Creates a proof that user can deposit funds and create a commitment
    */
-  async generateShieldProof(inputs: ProofInputs): Promise<ProofResult> {
+  async generateShieldProof(inputs: ProofInputs, onProgress?: ProgressCallback): Promise<ProofResult> {
+    this.assertServerProvingAllowed(inputs);
+    inputs = this.canonicalSecrets(inputs);
+    const { version: circuitVersion } = this.assertProvingVersion('shield', inputs.circuitVersion);
+    const recipient = encodeRecipient(inputs.recipient);
+
     try {
       console.log('🛡️ Generating shield proof...');
 
       // Generate random values if not provided
-      const secret = inputs.secret || this.randomFieldElement();
-      const nullifier = inputs.nullifier || this.randomFieldElement();
-      const randomness = inputs.randomness || this.randomFieldElement();
+      const secret = inputs.secret || randomFieldElement();
+      const nullifier = inputs.nullifier || randomFieldElement();
+      const randomness = inputs.randomness || randomFieldElement();
 
       // Generate commitment
       const commitment = this.generateCommitment(secret, nullifier, randomness);
       const nullifierHash = this.generateNullifierHash(nullifier, randomness);
 
-      console.log('  Secret:', secret.substring(0, 10) + '...');
-      console.log('  Nullifier:', nullifier.substring(0, 10) + '...');
-      console.log('  Randomness:', randomness.substring(0, 10) + '...');
       console.log('  Commitment:', commitment.substring(0, 10) + '...');
 
-      // Check if compiled circuit files exist
-      const wasmPath = path.join(this.circuitsPath, 'artifacts/shield_js/shield.wasm');
-      const zkeyPath = path.join(this.circuitsPath, 'keys/shield_final.zkey');
+      const { wasmPath, zkeyPath } = this.getArtifactPaths('shield', circuitVersion);
 
-      console.log('🔍 Checking for circuit files:');
-      console.log('  - circuitsPath:', this.circuitsPath);
-      console.log('  - wasmPath:', wasmPath);
-      console.log('  - wasmExists:', fs.existsSync(wasmPath));
-      console.log('  - zkeyPath:', zkeyPath);
-      console.log('  - zkeyExists:', fs.existsSync(zkeyPath));
+      if (this.isMockCircuit('shield', circuitVersion)) {
+        console.log(`⚠️  Returning MOCK shield v${circuitVersion} proof (proof mode ${this.proofMode})`);
 
-      if (!fs.existsSync(wasmPath) || !fs.existsSync(zkeyPath)) {
-        console.log('⚠️  Compiled circuits not found. Using mock proof for development.');
+        const decodedSignals: ShieldSignals = {
+          commitmentOut: commitment,
+          nullifierHash,
+          commitment,
+          amount: inputs.amount || '0',
+          recipient
+        };
 
-        // For development: return mock proof
-        // In production, circuits must be compiled
-        return {
+        return this.completeResult(inputs, {
           proof: this.generateMockProof(),
-          publicSignals: [commitment, inputs.amount || '0', inputs.recipient || '0'],
+          publicSignals: this.encodePublicSignals('shield', decodedSignals, circuitVersion),
+          decodedSignals,
+          mock: true,
+          circuitVersion,
           commitment,
           nullifier,
           secret,
           randomness
-        };
+        });
       }
 
       // Prepare circuit inputs
       const circuitInputs = {
         commitment,
         amount: inputs.amount || '0',
-        recipient: inputs.recipient || '0',
+        recipient,
         secret,
         nullifier,
         randomness
@@ -138,22 +557,28 @@ export class ProofGeneratorService {
       console.log('  Generating ZK proof with snarkjs...');
 
       // Generate the proof
-      const { proof, publicSignals } = await snarkjs.groth16.fullProve(
+      const { proof, publicSignals, decodedSignals } = await this.prove(
+        'shield',
+        circuitVersion,
         circuitInputs,
         wasmPath,
-        zkeyPath
+        zkeyPath,
+        onProgress
       );
 
       console.log('✅ Shield proof generated successfully');
 
-      return {
+      return this.completeResult(inputs, {
         proof,
         publicSignals,
+        decodedSignals,
+        mock: false,
+        circuitVersion,
         commitment,
         nullifier,
         secret,
         randomness
-      };
+      });
 
     } catch (error: any) {
       console.error('❌ Shield proof generation failed:', error);
@@ -173,12 +598,17 @@ export class ProofGeneratorService {
     changeSecret?: string;
     changeNullifier?: string;
     changeRandomness?: string;
-  }): Promise<ProofResult & {
+  }, onProgress?: ProgressCallback): Promise<ProofResult & {
     changeCommitment: string;
     changeSecret: string;
     changeNullifier: string;
     changeRandomness: string;
   }> {
+    this.assertServerProvingAllowed(inputs);
+    inputs = this.canonicalSecrets(inputs);
+    const { version: circuitVersion } = this.assertProvingVersion('unshield', inputs.circuitVersion);
+    const recipient = encodePayoutRecipient(inputs.recipient);
+
     try {
       console.log('🔓 Generating unshield proof with change support...');
 
@@ -195,9 +625,9 @@ export class ProofGeneratorService {
       const nullifierHash = this.generateNullifierHash(inputs.nullifier, inputs.randomness);
 
       // Generate change commitment secrets if not provided
-      const changeSecret = inputs.changeSecret || this.randomFieldElement();
-      const changeNullifier = inputs.changeNullifier || this.randomFieldElement();
-      const changeRandomness = inputs.changeRandomness || this.randomFieldElement();
+      const changeSecret = inputs.changeSecret || randomFieldElement();
+      const changeNullifier = inputs.changeNullifier || randomFieldElement();
+      const changeRandomness = inputs.changeRandomness || randomFieldElement();
 
       // Calculate change commitment
       const changeCommitment = this.generateCommitment(changeSecret, changeNullifier, changeRandomness);
@@ -208,28 +638,29 @@ export class ProofGeneratorService {
       console.log('  Output Amount:', inputs.outputAmount);
       console.log('  Change Amount:', inputs.changeAmount);
 
-      // Check if compiled circuit files exist
-      const wasmPath = path.join(this.circuitsPath, 'artifacts/unshield_js/unshield.wasm');
-      const zkeyPath = path.join(this.circuitsPath, 'keys/unshield_final.zkey');
+      const { wasmPath, zkeyPath } = this.getArtifactPaths('unshield', circuitVersion);
+
+      if (this.isMockCircuit('unshield', circuitVersion)) {
+        console.log(`⚠️  Returning MOCK unshield v${circuitVersion} proof (proof mode ${this.proofMode})`);
 
-      if (!fs.existsSync(wasmPath) || !fs.existsSync(zkeyPath)) {
-        console.log('⚠️  Compiled circuits not found. Using mock proof for development.');
+        const decodedSignals: UnshieldSignals = {
+          nullifierHash,
+          inputCommitment,
+          outputAmountOut: inputs.outputAmount || '0',
+          changeCommitment,
+          changeAmountOut: inputs.changeAmount || '0',
+          recipientOut: recipient,
+          outputAmount: inputs.outputAmount || '0',
+          changeAmount: inputs.changeAmount || '0',
+          recipient
+        };
 
-        // Public signals: [outputAmount, changeAmount, recipient, nullifierHash, inputCommitment, outputAmountOut, changeCommitment, changeAmountOut, recipientOut]
-        // Order: public inputs first, then public outputs
-        return {
+        return this.completeResult(inputs, {
           proof: this.generateMockProof(),
-          publicSignals: [
-            inputs.outputAmount || '0',      // public input
-            inputs.changeAmount || '0',      // public input
-            inputs.recipient || '0',         // public input
-            nullifierHash,                   // public output
-            inputCommitment,                 // public output
-            inputs.outputAmount || '0',      // public output (outputAmountOut)
-            changeCommitment,                // public output
-            inputs.changeAmount || '0',      // public output (changeAmountOut)
-            inputs.recipient || '0'          // public output (recipientOut)
-          ],
+          publicSignals: this.encodePublicSignals('unshield', decodedSignals, circuitVersion),
+          decodedSignals,
+          mock: true,
+          circuitVersion,
           commitment: inputCommitment,
           nullifier: inputs.nullifier,
           secret: inputs.secret,
@@ -239,7 +670,7 @@ export class ProofGeneratorService {
           changeSecret,
           changeNullifier,
           changeRandomness
-        };
+        });
       }
 
       // Prepare circuit inputs
@@ -254,29 +685,29 @@ export class ProofGeneratorService {
         // Public inputs
         outputAmount: inputs.outputAmount || '0',
         changeAmount: inputs.changeAmount || '0',
-        recipient: inputs.recipient || '0'
+        recipient
       };
 
-      console.log('  Circuit inputs debug:');
-      console.log('    secret type:', typeof inputs.secret, 'value:', inputs.secret?.substring(0, 20));
-      console.log('    changeSecret type:', typeof changeSecret, 'value:', changeSecret?.substring(0, 20));
-      console.log('    changeNullifier type:', typeof changeNullifier, 'value:', changeNullifier?.substring(0, 20));
-      console.log('    changeRandomness type:', typeof changeRandomness, 'value:', changeRandomness?.substring(0, 20));
-      console.log('    Full circuitInputs:', JSON.stringify(circuitInputs, null, 2));
       console.log('  Generating ZK proof with snarkjs...');
 
       // Generate the proof
-      const { proof, publicSignals } = await snarkjs.groth16.fullProve(
+      const { proof, publicSignals, decodedSignals } = await this.prove(
+        'unshield',
+        circuitVersion,
         circuitInputs,
         wasmPath,
-        zkeyPath
+        zkeyPath,
+        onProgress
       );
 
       console.log('✅ Unshield proof generated successfully');
 
-      return {
+      return this.completeResult(inputs, {
         proof,
         publicSignals,
+        decodedSignals,
+        mock: false,
+        circuitVersion,
         commitment: inputCommitment,
         nullifier: inputs.nullifier,
         secret: inputs.secret,
@@ -286,7 +717,7 @@ export class ProofGeneratorService {
         changeSecret,
         changeNullifier,
         changeRandomness
-      };
+      });
 
     } catch (error: any) {
       console.error('❌ Unshield proof generation failed:', error);
@@ -295,7 +726,53 @@ export class ProofGeneratorService {
   }
 
   /**
-   * Generate mock proof for development (when circuits aren't compiled)
+   * Run witness calculation and Groth16 proving, then verify the proof locally and decode its public signals
+   */
+  private async prove<T extends CircuitType>(
+    circuitType: T,
+    circuitVersion: string,
+    circuitInputs: Record<string, any>,
+    wasmPath: string,
+    zkeyPath: string,
+    onProgress?: ProgressCallback
+  ): Promise<{ proof: any; publicSignals: string[]; decodedSignals: CircuitSignals[T] }> {
+    onProgress?.('witness');
+    const witness: any = { type: 'mem' };
+    await snarkjs.wtns.calculate(circuitInputs, wasmPath, witness);
+
+    onProgress?.('proving');
+    const { proof, publicSignals } = await snarkjs.groth16.prove(zkeyPath, witness);
+
+    onProgress?.('verifying');
+    console.log('🔍 Verifying proof locally...');
+    const isValid = await this.verifyProof(proof, publicSignals, circuitType, circuitVersion);
+    console.log('✅ Local verification result:', isValid);
+
+    if (!isValid) {
+      throw new Error('Generated proof failed local verification!');
+    }
+
+    return {
+      proof,
+      publicSignals,
+      decodedSignals: this.decodePublicSignals(circuitType, publicSignals, circuitVersion)
+    };
+  }
+
+  /**
+   * Attach the decoded recipient, and Solidity verifier calldata when the request asked for it
+   */
+  private async completeResult<R extends ProofResult>(inputs: ProofInputs, result: R): Promise<R> {
+    result.recipient = decodeRecipient(result.decodedSignals.recipient);
+
+    if (inputs.calldata) {
+      result.calldata = await this.exportSolidityCalldata(result.proof, result.publicSignals);
+    }
+    return result;
+  }
+
+  /**
+   * Generate mock proof for development (random points; never verifies)
    */
   private generateMockProof(): any {
     return {
@@ -346,135 +823,139 @@ export class ProofGeneratorService {
     changeSecret?: string;
     changeNullifier?: string;
     changeRandomness?: string;
-  }): Promise<ProofResult & {
+  }, onProgress?: ProgressCallback): Promise<ProofResult & {
     changeCommitment: string;
     changeSecret: string;
     changeNullifier: string;
     changeRandomness: string;
   }> {
+    this.assertServerProvingAllowed(inputs);
+    inputs = this.canonicalSecrets(inputs);
+    const { version: circuitVersion } = this.assertProvingVersion('transfer', inputs.circuitVersion);
+    const recipient = encodeRecipient(inputs.recipient);
+
     try {
       console.log('🔄 Generating transfer proof with change support...');
 
+      const { inputSecret, inputNullifier, inputRandomness, outputSecret, outputNullifier, outputRandomness } = inputs;
+
+      if (!inputSecret || !inputNullifier || !inputRandomness) {
+        throw new Error('Input secret, nullifier, and randomness required for transfer');
+      }
+
+      if (!outputSecret || !outputNullifier || !outputRandomness) {
+        throw new Error('Output secret, nullifier, and randomness required for transfer');
+      }
+
+      // Recalculate input commitment rather than trusting the one supplied
+      const inputCommitment = this.generateCommitment(inputSecret, inputNullifier, inputRandomness);
+
       // Generate change commitment secrets if not provided
-      const changeSecret = inputs.changeSecret || this.randomFieldElement();
-      const changeNullifier = inputs.changeNullifier || this.randomFieldElement();
-      const changeRandomness = inputs.changeRandomness || this.randomFieldElement();
+      const changeSecret = inputs.changeSecret || randomFieldElement();
+      const changeNullifier = inputs.changeNullifier || randomFieldElement();
+      const changeRandomness = inputs.changeRandomness || randomFieldElement();
 
       // Calculate output commitment from output secrets
-      const calculatedOutputCommitment = this.hash(
-        inputs.outputSecret!,
-        inputs.outputNullifier!,
-        inputs.outputRandomness!
+      const calculatedOutputCommitment = this.generateCommitment(
+        outputSecret,
+        outputNullifier,
+        outputRandomness
       );
 
       // Calculate change commitment
-      const changeCommitment = this.hash(changeSecret, changeNullifier, changeRandomness);
+      const changeCommitment = this.generateCommitment(changeSecret, changeNullifier, changeRandomness);
 
       // Calculate nullifier hash
-      const nullifierHash = this.hash(inputs.inputNullifier!, inputs.inputRandomness!);
+      const nullifierHash = this.generateNullifierHash(inputNullifier, inputRandomness);
 
-      console.log('  Input Commitment:', inputs.inputCommitment?.substring(0, 10) + '...');
+      console.log('  Input Commitment:', inputCommitment.substring(0, 10) + '...');
       console.log('  Output Commitment:', calculatedOutputCommitment.substring(0, 10) + '...');
       console.log('  Change Commitment:', changeCommitment.substring(0, 10) + '...');
       console.log('  Output Amount:', inputs.outputAmount);
       console.log('  Change Amount:', inputs.changeAmount);
 
-      // Check if compiled circuit files exist
-      const wasmPath = path.join(this.circuitsPath, 'artifacts/transfer_js/transfer.wasm');
-      const zkeyPath = path.join(this.circuitsPath, 'keys/transfer_final.zkey');
+      const { wasmPath, zkeyPath } = this.getArtifactPaths('transfer', circuitVersion);
 
-      console.log('🔍 Checking for circuit files:');
-      console.log('  circuitsPath:', this.circuitsPath);
-      console.log('  wasmPath:', wasmPath);
-      console.log('  wasmExists:', fs.existsSync(wasmPath));
-      console.log('  zkeyPath:', zkeyPath);
-      console.log('  zkeyExists:', fs.existsSync(zkeyPath));
+      if (this.isMockCircuit('transfer', circuitVersion)) {
+        console.log(`⚠️  Returning MOCK transfer v${circuitVersion} proof (proof mode ${this.proofMode})`);
 
-      if (!fs.existsSync(wasmPath) || !fs.existsSync(zkeyPath)) {
-        console.log('⚠️  Compiled circuits not found. Using mock proof for development.');
+        const decodedSignals: TransferSignals = {
+          nullifierHash,
+          inputCommitment,
+          outputCommitment: calculatedOutputCommitment,
+          outputAmountOut: inputs.outputAmount || '0',
+          changeCommitment,
+          changeAmountOut: inputs.changeAmount || '0',
+          recipientOut: recipient,
+          outputAmount: inputs.outputAmount || '0',
+          changeAmount: inputs.changeAmount || '0',
+          recipient
+        };
 
-        // Public signals: [outputAmount, changeAmount, recipient, nullifierHash, inputCommitment, outputCommitment, outputAmountOut, changeCommitment, changeAmountOut, recipientOut]
-        // Order: public inputs first, then public outputs
-        return {
+        return this.completeResult(inputs, {
           proof: this.generateMockProof(),
-          publicSignals: [
-            inputs.outputAmount || '0',       // public input
-            inputs.changeAmount || '0',       // public input
-            inputs.recipient || '0',          // public input
-            nullifierHash,                    // public output
-            inputs.inputCommitment!,          // public output
-            calculatedOutputCommitment,       // public output
-            inputs.outputAmount || '0',       // public output (outputAmountOut)
-            changeCommitment,                 // public output
-            inputs.changeAmount || '0',       // public output (changeAmountOut)
-            inputs.recipient || '0'           // public output (recipientOut)
-          ],
+          publicSignals: this.encodePublicSignals('transfer', decodedSignals, circuitVersion),
+          decodedSignals,
+          mock: true,
+          circuitVersion,
           nullifierHash,
           outputCommitment: calculatedOutputCommitment,
           changeCommitment,
           changeSecret,
           changeNullifier,
           changeRandomness
-        };
+        });
       }
 
       // Prepare circuit inputs
       const circuitInputs = {
         // Private inputs
-        inputSecret: inputs.inputSecret!,
-        inputNullifier: inputs.inputNullifier!,
-        inputRandomness: inputs.inputRandomness!,
-        outputSecret: inputs.outputSecret!,
-        outputNullifier: inputs.outputNullifier!,
-        outputRandomness: inputs.outputRandomness!,
+        inputSecret,
+        inputNullifier,
+        inputRandomness,
+        outputSecret,
+        outputNullifier,
+        outputRandomness,
         changeSecret,
         changeNullifier,
         changeRandomness,
         // Public inputs
         outputAmount: inputs.outputAmount || '0',
         changeAmount: inputs.changeAmount || '0',
-        recipient: inputs.recipient || '0'
+        recipient
       };
 
       console.log('  Generating ZK proof with snarkjs...');
 
       // Generate the proof
-      const { proof, publicSignals } = await snarkjs.groth16.fullProve(
+      const { proof, publicSignals, decodedSignals } = await this.prove(
+        'transfer',
+        circuitVersion,
         circuitInputs,
         wasmPath,
-        zkeyPath
+        zkeyPath,
+        onProgress
       );
 
       console.log('✅ Transfer proof generated successfully');
       console.log('📊 Public Signals from circuit:');
-      console.log('  [0] nullifierHash:', publicSignals[0]);
-      console.log('  [1] inputCommitment:', publicSignals[1]);
-      console.log('  [2] outputCommitment:', publicSignals[2]);
-      console.log('  [3] outputAmount:', publicSignals[3]);
-      console.log('  [4] changeCommitment:', publicSignals[4]);
-      console.log('  [5] changeAmount:', publicSignals[5]);
-      console.log('  [6] recipient:', publicSignals[6]);
-      console.log('  Total signals:', publicSignals.length);
-
-      // Verify proof locally before returning
-      console.log('🔍 Verifying proof locally...');
-      const isValid = await this.verifyProof(proof, publicSignals, 'transfer');
-      console.log('✅ Local verification result:', isValid);
-
-      if (!isValid) {
-        throw new Error('Generated proof failed local verification!');
+      for (const [field, value] of Object.entries(decodedSignals)) {
+        console.log(`  ${field}:`, value);
       }
 
-      return {
+      return this.completeResult(inputs, {
         proof,
         publicSignals,
-        nullifierHash: publicSignals[0],
+        decodedSignals,
+        mock: false,
+        circuitVersion,
+        nullifierHash: decodedSignals.nullifierHash,
         outputCommitment: calculatedOutputCommitment,
         changeCommitment,
         changeSecret,
         changeNullifier,
         changeRandomness
-      };
+      });
 
     } catch (error: any) {
       console.error('❌ Transfer proof generation failed:', error);
@@ -483,26 +964,218 @@ export class ProofGeneratorService {
   }
 
   /**
-   * Verify a proof (useful for testing)
+   * Verify a proof against the key of the circuit version that produced it (default latest)
+   * False when it is invalid or that version's verification key is missing
+   */
+  async verifyProof(
+    proof: any,
+    publicSignals: string[],
+    circuitType: CircuitType,
+    circuitVersion?: string
+  ): Promise<boolean> {
+    const result = await this.verifyProofDetailed(proof, publicSignals, circuitType, circuitVersion);
+    return result.valid;
+  }
+
+  /**
+   * Verify a proof and report why it was rejected, using the verification key of the given circuit version
+   * (default latest). Retired versions can still be verified.
+   */
+  async verifyProofDetailed(
+    proof: any,
+    publicSignals: string[],
+    circuitType: CircuitType,
+    circuitVersion?: string
+  ): Promise<VerificationResult> {
+    if (!CIRCUIT_TYPES.includes(circuitType)) {
+      return { valid: false, reason: `Unknown circuit type: ${circuitType}` };
+    }
+
+    const entry = this.findVersion(circuitType, circuitVersion);
+    if (!entry) {
+      return { valid: false, reason: `Unknown ${circuitType} circuit version: ${circuitVersion}` };
+    }
+
+    const result = await this.checkProof(proof, publicSignals, circuitType, entry.version);
+    if (!result.valid) {
+      return { ...result, circuitVersion: entry.version };
+    }
+
+    const decodedSignals = this.decodePublicSignals(circuitType, publicSignals, entry.version);
+    return {
+      ...result,
+      circuitVersion: entry.version,
+      decodedSignals,
+      recipient: this.tryDecodeRecipient(decodedSignals.recipient)
+    };
+  }
+
+  /**
+   * Recipient address of a submitted proof; undefined when its recipient signal is wider than an address
    */
-  async verifyProof(proof: any, publicSignals: string[], circuitType: 'shield' | 'unshield' | 'transfer'): Promise<boolean> {
+  private tryDecodeRecipient(signal: string): string | null | undefined {
     try {
-      const vkeyPath = path.join(this.circuitsPath, `keys/${circuitType}_verification_key.json`);
+      return decodeRecipient(signal);
+    } catch (error: any) {
+      if (error instanceof RecipientError) {
+        return undefined;
+      }
+      throw error;
+    }
+  }
 
-      if (!fs.existsSync(vkeyPath)) {
-        console.log('⚠️  Verification key not found. Skipping verification.');
-        return true; // Mock verification for development
+  /**
+   * Checks the signal count against the key's nPublic and the proof shape before running the pairing check
+   */
+  private async checkProof(
+    proof: any,
+    publicSignals: string[],
+    circuitType: CircuitType,
+    circuitVersion: string
+  ): Promise<VerificationResult> {
+    const vKey = this.loadVerificationKey(circuitType, circuitVersion);
+    if (!vKey) {
+      return { valid: false, reason: `Verification key for ${circuitType} v${circuitVersion} not found` };
+    }
+
+    if (!Array.isArray(publicSignals) || !publicSignals.every(s => this.isNumeric(s))) {
+      return { valid: false, reason: 'Public signals must be an array of numeric strings' };
+    }
+
+    const outOfField = publicSignals.findIndex(s => !isFieldElement(s));
+    if (outOfField !== -1) {
+      return { valid: false, reason: `Public signal ${outOfField} must be below the BN254 scalar field modulus` };
+    }
+
+    if (publicSignals.length !== vKey.nPublic) {
+      return {
+        valid: false,
+        reason: `Wrong number of public signals: expected ${vKey.nPublic}, received ${publicSignals.length}`,
+        expectedSignals: vKey.nPublic,
+        receivedSignals: publicSignals.length
+      };
+    }
+
+    const malformed = this.describeMalformedProof(proof);
+    if (malformed) {
+      return { valid: false, reason: `Malformed proof: ${malformed}` };
+    }
+
+    // snarkjs only reports why a proof was rejected through its logger
+    const errors: string[] = [];
+    const logger = {
+      error: (message: string) => errors.push(message),
+      info: () => {},
+      warn: () => {},
+      debug: () => {}
+    };
+
+    try {
+      const isValid = await snarkjs.groth16.verify(vKey, publicSignals, proof, logger);
+
+      if (isValid) {
+        return { valid: true, reason: 'Proof is valid' };
       }
 
-      const vKey = JSON.parse(fs.readFileSync(vkeyPath, 'utf-8'));
-      const isValid = await snarkjs.groth16.verify(vKey, publicSignals, proof);
+      if (errors.includes('Proof commitments are not valid.')) {
+        return { valid: false, reason: 'Malformed proof: points are not on the curve' };
+      }
+
+      if (errors.includes('Public inputs are not valid.')) {
+        return { valid: false, reason: 'Public signals are not in the scalar field' };
+      }
 
-      return isValid;
+      return { valid: false, reason: 'Pairing check failed' };
     } catch (error: any) {
       console.error('❌ Proof verification failed:', error);
-      return false;
+      return { valid: false, reason: `Malformed proof: ${error.message}` };
     }
   }
+
+  /**
+   * Format a proof as Solidity verifier arguments (drops projective coordinates, swaps G2 limbs)
+   */
+  async exportSolidityCalldata(proof: any, publicSignals: string[]): Promise<SolidityCalldata> {
+    const calldata = await snarkjs.groth16.exportSolidityCallData(proof, publicSignals);
+    const [a, b, c, input] = JSON.parse(`[${calldata}]`);
+    const encoded = ethers.AbiCoder.defaultAbiCoder().encode(
+      ['uint256[2]', 'uint256[2][2]', 'uint256[2]', `uint256[${input.length}]`],
+      [a, b, c, input]
+    );
+    return { a, b, c, input, encoded };
+  }
+
+  /**
+   * Render the Solidity verifier contract for a circuit version (default latest)
+   * snarkjs derives it from the proving key, which was checked against the verification key when loaded
+   */
+  async exportSolidityVerifier(circuitType: CircuitType, version?: string): Promise<string> {
+    const entry = this.resolveCircuitVersion(circuitType, version);
+    const { zkeyPath } = this.getArtifactPaths(circuitType, entry.version);
+
+    if (!fs.existsSync(zkeyPath)) {
+      throw new Error(`${circuitType} v${entry.version} proving key not available`);
+    }
+
+    const template = fs.readFileSync(GROTH16_VERIFIER_TEMPLATE, 'utf-8');
+    const source: string = await snarkjs.zKey.exportSolidityVerifier(zkeyPath, { groth16: template });
+
+    // One contract per circuit version, so several can be deployed from the same project
+    const circuitName = circuitType[0].toUpperCase() + circuitType.slice(1);
+    const contractName = `${circuitName}Verifier_v${entry.version.replace(/\./g, '_')}`;
+    return source.replace('contract Groth16Verifier', `contract ${contractName}`);
+  }
+
+  /**
+   * Load (and cache) the verification key for a circuit version
+   */
+  private loadVerificationKey(circuitType: CircuitType, circuitVersion: string): any | null {
+    const key = `${circuitType}@${circuitVersion}`;
+    if (this.verificationKeys.has(key)) {
+      return this.verificationKeys.get(key);
+    }
+
+    const { vkeyPath } = this.getArtifactPaths(circuitType, circuitVersion);
+    if (!fs.existsSync(vkeyPath)) {
+      return null;
+    }
+
+    const vKey = JSON.parse(fs.readFileSync(vkeyPath, 'utf-8'));
+    this.verificationKeys.set(key, vKey);
+    return vKey;
+  }
+
+  /**
+   * Check the Groth16 proof shape (pi_a, pi_b, pi_c); returns a description of the problem or null
+   */
+  private describeMalformedProof(proof: any): string | null {
+    if (!proof || typeof proof !== 'object') {
+      return 'proof must be an object';
+    }
+
+    const isPoint = (p: any) => Array.isArray(p) && p.length >= 2 && p.every((c: any) => this.isNumeric(c));
+
+    if (!isPoint(proof.pi_a)) {
+      return 'pi_a must be an array of numeric coordinates';
+    }
+
+    if (!Array.isArray(proof.pi_b) || proof.pi_b.length < 2 || !proof.pi_b.every(isPoint)) {
+      return 'pi_b must be an array of numeric coordinate pairs';
+    }
+
+    if (!isPoint(proof.pi_c)) {
+      return 'pi_c must be an array of numeric coordinates';
+    }
+
+    return null;
+  }
+
+  /**
+   * Check a value is a decimal or 0x-prefixed hex integer string
+   */
+  private isNumeric(value: any): boolean {
+    return typeof value === 'string' && /^(0x[0-9a-fA-F]+|[0-9]+)$/.test(value);
+  }
 }
 
 // Export singleton instance
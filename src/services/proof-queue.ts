@@ -0,0 +1,255 @@
+import { fork, ChildProcess } from 'child_process';
+import { EventEmitter } from 'events';
+import * as crypto from 'crypto';
+import * as os from 'os';
+import * as path from 'path';
+import { CircuitType, ProofStage } from './proof-generator';
+
+/**
+ * Proof Queue Service
+ * Runs proof generation jobs on a bounded pool of worker processes so requests return immediately
+ * (snarkjs spawns its own worker_threads and cannot itself be loaded inside one, hence processes)
+ *
+ * Configured through:
+ *   PROOF_WORKERS         - worker processes in the pool (default: CPU count - 1, at least 1)
+ *   PROOF_QUEUE_MAX_DEPTH - queued + running jobs accepted before new jobs are refused (default 50)
+ *   PROOF_JOB_TTL_MS      - how long finished jobs (and the note secrets they hold) are kept (default 1 hour)
+ *
+ * Results can hold change-note secrets, so each job gets an access token that is returned only to its submitter;
+ * only its SHA-256 hash is kept.
+ */
+
+export type JobStatus = 'queued' | ProofStage | 'done' | 'failed';
+
+export interface ProofJob {
+  id: string;
+  type: CircuitType;
+  chainId: number;
+  status: JobStatus;
+  createdAt: string;
+  updatedAt: string;
+  result?: any;
+  error?: string;
+}
+
+export interface QueuedJob {
+  job: ProofJob;
+  accessToken: string;
+}
+
+export class QueueFullError extends Error {
+  constructor(maxDepth: number) {
+    super(`Proof queue is full (max ${maxDepth} jobs). Try again later.`);
+    this.name = 'QueueFullError';
+  }
+}
+
+interface PendingJob {
+  job: ProofJob;
+  inputs: any;
+  circuitsPath: string;
+}
+
+interface PoolWorker {
+  worker: ChildProcess;
+  jobId: string | null;
+  retiring: boolean;  // stops after its current job (see recycleWorkers)
+}
+
+export class ProofQueueService extends EventEmitter {
+  private jobs: Map<string, ProofJob> = new Map();
+  private tokenHashes: Map<string, Buffer> = new Map();  // job ID -> SHA-256 of its access token
+  private pending: PendingJob[] = [];
+  private workers: PoolWorker[] = [];
+  private poolSize: number;
+  private maxDepth: number;
+  private jobTtlMs: number;
+
+  constructor() {
+    super();
+    this.poolSize = parseInt(process.env.PROOF_WORKERS || '', 10) || Math.max(1, os.cpus().length - 1);
+    this.maxDepth = parseInt(process.env.PROOF_QUEUE_MAX_DEPTH || '50', 10);
+    this.jobTtlMs = parseInt(process.env.PROOF_JOB_TTL_MS || '3600000', 10);
+    this.setMaxListeners(0);
+  }
+
+  /**
+   * Queue a proof job against a chain's circuits; throws QueueFullError when the queue is saturated
+   * The access token is needed to read the job back and is not stored.
+   */
+  enqueue(type: CircuitType, inputs: any, chain: { chainId: number; circuitsPath: string }): QueuedJob {
+    if (this.getDepth() >= this.maxDepth) {
+      throw new QueueFullError(this.maxDepth);
+    }
+
+    const now = new Date().toISOString();
+    const job: ProofJob = {
+      id: crypto.randomUUID(),
+      type,
+      chainId: chain.chainId,
+      status: 'queued',
+      createdAt: now,
+      updatedAt: now
+    };
+
+    const accessToken = crypto.randomBytes(32).toString('hex');
+
+    this.jobs.set(job.id, job);
+    this.tokenHashes.set(job.id, this.hashToken(accessToken));
+    this.pending.push({ job, inputs, circuitsPath: chain.circuitsPath });
+
+    console.log(`📋 Queued ${type} job ${job.id} (depth ${this.getDepth()})`);
+
+    this.dispatch();
+    return { job, accessToken };
+  }
+
+  getJob(id: string): ProofJob | null {
+    return this.jobs.get(id) || null;
+  }
+
+  /**
+   * Whether a token is the access token issued for a job
+   */
+  isAccessToken(id: string, token: string | undefined): boolean {
+    const expected = this.tokenHashes.get(id);
+    return !!expected && !!token && crypto.timingSafeEqual(expected, this.hashToken(token));
+  }
+
+  private hashToken(token: string): Buffer {
+    return crypto.createHash('sha256').update(token).digest();
+  }
+
+  /**
+   * Call listener once, when a job is done or failed
+   */
+  onFinished(jobId: string, listener: (job: ProofJob) => void): void {
+    const onUpdate = (job: ProofJob) => {
+      if (job.id === jobId && (job.status === 'done' || job.status === 'failed')) {
+        this.off('update', onUpdate);
+        listener(job);
+      }
+    };
+    this.on('update', onUpdate);
+  }
+
+  /**
+   * Jobs waiting for a worker plus jobs currently running
+   */
+  getDepth(): number {
+    return this.pending.length + this.workers.filter(w => w.jobId).length;
+  }
+
+  getStats() {
+    return {
+      workers: this.poolSize,
+      busyWorkers: this.workers.filter(w => w.jobId).length,
+      queued: this.pending.length,
+      maxDepth: this.maxDepth
+    };
+  }
+
+  /**
+   * Replace every worker, e.g. after circuits are reloaded, since each worker caches its own generator
+   * Idle workers stop now; busy ones finish their current job first
+   */
+  recycleWorkers(): void {
+    for (const poolWorker of this.workers) {
+      poolWorker.retiring = true;
+      if (!poolWorker.jobId) {
+        poolWorker.worker.kill();
+      }
+    }
+  }
+
+  /**
+   * Hand pending jobs to idle workers, starting new workers up to the pool size
+   */
+  private dispatch(): void {
+    while (this.pending.length > 0) {
+      let poolWorker = this.workers.find(w => !w.jobId && !w.retiring);
+
+      if (!poolWorker && this.workers.filter(w => !w.retiring).length < this.poolSize) {
+        poolWorker = this.spawnWorker();
+      }
+
+      if (!poolWorker) {
+        return;
+      }
+
+      const { job, inputs, circuitsPath } = this.pending.shift()!;
+      poolWorker.jobId = job.id;
+      poolWorker.worker.send({ jobId: job.id, type: job.type, inputs, circuitsPath });
+    }
+  }
+
+  private spawnWorker(): PoolWorker {
+    // Under ts-node the worker is loaded from source and needs the TypeScript loader too
+    const extension = path.extname(__filename);
+    const workerPath = path.resolve(__dirname, `../workers/proof-worker${extension}`);
+    const worker = fork(workerPath, [], {
+      execArgv: extension === '.ts' ? ['--require', 'ts-node/register'] : []
+    });
+
+    const poolWorker: PoolWorker = { worker, jobId: null, retiring: false };
+
+    worker.on('message', (message: { jobId: string; stage?: ProofStage; result?: any; error?: string }) => {
+      if (message.stage) {
+        this.update(message.jobId, { status: message.stage });
+        return;
+      }
+
+      if (message.error) {
+        this.update(message.jobId, { status: 'failed', error: message.error });
+      } else {
+        this.update(message.jobId, { status: 'done', result: message.result });
+      }
+
+      poolWorker.jobId = null;
+
+      if (poolWorker.retiring) {
+        poolWorker.worker.kill();
+        return;
+      }
+
+      this.dispatch();
+    });
+
+    worker.on('error', (error) => {
+      console.error('❌ Proof worker crashed:', error);
+    });
+
+    worker.on('exit', () => {
+      if (poolWorker.jobId) {
+        this.update(poolWorker.jobId, { status: 'failed', error: 'Proof worker exited unexpectedly' });
+      }
+
+      this.workers = this.workers.filter(w => w !== poolWorker);
+      this.dispatch();
+    });
+
+    this.workers.push(poolWorker);
+    return poolWorker;
+  }
+
+  private update(jobId: string, changes: Partial<ProofJob>): void {
+    const job = this.jobs.get(jobId);
+    if (!job) {
+      return;
+    }
+
+    Object.assign(job, changes, { updatedAt: new Date().toISOString() });
+    this.emit('update', job);
+
+    if (job.status === 'done' || job.status === 'failed') {
+      console.log(`${job.status === 'done' ? '✅' : '❌'} Job ${job.id} ${job.status}`);
+      setTimeout(() => {
+        this.jobs.delete(jobId);
+        this.tokenHashes.delete(jobId);
+      }, this.jobTtlMs).unref();
+    }
+  }
+}
+
+// Export singleton instance
+export const proofQueue = new ProofQueueService();
@@ -0,0 +1,107 @@
+import * as path from 'path';
+import { describe, expect, it } from 'vitest';
+import { readCircuitManifest } from './circuit-manifest';
+import { CIRCUIT_TYPES } from './proof-generator';
+import {
+  PublicSignalsError,
+  SIGNAL_FIELDS,
+  TransferSignals,
+  decodePublicSignals,
+  describeLayoutMismatch,
+  encodePublicSignals
+} from './public-signals';
+
+const CIRCUITS_DIR = path.resolve(__dirname, '../../circuits');
+
+const transfer: TransferSignals = {
+  nullifierHash: '1',
+  inputCommitment: '2',
+  outputCommitment: '3',
+  outputAmountOut: '4',
+  changeCommitment: '5',
+  changeAmountOut: '6',
+  recipientOut: '7',
+  outputAmount: '4',
+  changeAmount: '6',
+  recipient: '7'
+};
+
+describe('decodePublicSignals', () => {
+  it('names each signal by its position in the layout', () => {
+    const layout = SIGNAL_FIELDS.transfer;
+    const signals = layout.map((_, i) => String(100 + i));
+
+    const decoded = decodePublicSignals('transfer', layout, layout.length, signals);
+
+    expect(decoded.nullifierHash).toBe('100');
+    expect(decoded.recipient).toBe(String(100 + layout.length - 1));
+    expect(Object.keys(decoded)).toEqual(layout);
+  });
+
+  it('follows a reordered layout rather than a fixed order', () => {
+    const layout = ['recipient', 'amount', 'commitment', 'nullifierHash', 'commitmentOut'];
+
+    expect(decodePublicSignals('shield', layout, 5, ['5', '4', '3', '2', '1'])).toEqual({
+      recipient: '5',
+      amount: '4',
+      commitment: '3',
+      nullifierHash: '2',
+      commitmentOut: '1'
+    });
+  });
+
+  it('refuses arrays that are not exactly nPublic long', () => {
+    const layout = SIGNAL_FIELDS.shield;
+
+    expect(() => decodePublicSignals('shield', layout, 5, ['1', '2', '3', '4'])).toThrow(PublicSignalsError);
+    expect(() => decodePublicSignals('shield', layout, 5, ['1', '2', '3', '4', '5', '6'])).toThrow(/expects 5 public signals, received 6/);
+    expect(() => decodePublicSignals('shield', layout, 6, ['1', '2', '3', '4', '5'])).toThrow(PublicSignalsError);
+  });
+
+  it('refuses signals that are not an array', () => {
+    expect(() => decodePublicSignals('shield', SIGNAL_FIELDS.shield, 5, '12345' as any)).toThrow(/must be an array/);
+  });
+
+  it('returns signals as strings', () => {
+    const decoded = decodePublicSignals('shield', SIGNAL_FIELDS.shield, 5, [1, 2, 3, 4, 5] as any);
+    expect(decoded.amount).toBe('4');
+  });
+});
+
+describe('encodePublicSignals', () => {
+  it('is the inverse of decoding', () => {
+    const layout = SIGNAL_FIELDS.transfer;
+    const encoded = encodePublicSignals('transfer', layout, transfer);
+
+    expect(encoded).toEqual(['1', '2', '3', '4', '5', '6', '7', '4', '6', '7']);
+    expect(decodePublicSignals('transfer', layout, layout.length, encoded)).toEqual(transfer);
+  });
+
+  it('refuses a layout field with no value', () => {
+    const { recipient, ...withoutRecipient } = transfer;
+    expect(() => encodePublicSignals('transfer', SIGNAL_FIELDS.transfer, withoutRecipient as TransferSignals))
+      .toThrow(/recipient has no value/);
+  });
+});
+
+describe('describeLayoutMismatch', () => {
+  it('accepts any order of exactly the named signals', () => {
+    expect(describeLayoutMismatch('shield', [...SIGNAL_FIELDS.shield].reverse())).toBeNull();
+  });
+
+  it('names missing, unknown and duplicate signals', () => {
+    expect(describeLayoutMismatch('shield', ['commitmentOut', 'nullifierHash', 'commitment', 'amount', 'fee']))
+      .toBe('missing recipient; unknown fee');
+    expect(describeLayoutMismatch('shield', [...SIGNAL_FIELDS.shield, 'amount'])).toBe('duplicate names');
+  });
+
+  it('matches every layout in the shipped manifest', () => {
+    const manifest = readCircuitManifest(CIRCUITS_DIR, CIRCUIT_TYPES);
+
+    for (const circuitType of CIRCUIT_TYPES) {
+      for (const entry of manifest.circuits[circuitType]) {
+        expect(describeLayoutMismatch(circuitType, entry.publicSignals)).toBeNull();
+      }
+    }
+  });
+});
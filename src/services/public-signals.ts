@@ -0,0 +1,148 @@
+import type { CircuitType } from './proof-generator';
+
+/**
+ * Public signals
+ * Typed views of each circuit's publicSignals array. The order of the array is the layout recorded for the
+ * circuit version in circuits/manifest.json; these helpers are the only place that maps between the two, for
+ * both real proofs and mocks.
+ */
+
+export interface ShieldSignals {
+  commitmentOut: string;
+  nullifierHash: string;
+  commitment: string;
+  amount: string;
+  recipient: string;
+}
+
+export interface UnshieldSignals {
+  nullifierHash: string;
+  inputCommitment: string;
+  outputAmountOut: string;
+  changeCommitment: string;
+  changeAmountOut: string;
+  recipientOut: string;
+  outputAmount: string;
+  changeAmount: string;
+  recipient: string;
+}
+
+export interface TransferSignals {
+  nullifierHash: string;
+  inputCommitment: string;
+  outputCommitment: string;
+  outputAmountOut: string;
+  changeCommitment: string;
+  changeAmountOut: string;
+  recipientOut: string;
+  outputAmount: string;
+  changeAmount: string;
+  recipient: string;
+}
+
+export interface CircuitSignals {
+  shield: ShieldSignals;
+  unshield: UnshieldSignals;
+  transfer: TransferSignals;
+}
+
+export type DecodedSignals = CircuitSignals[CircuitType];
+
+// Named signals each circuit must expose; a manifest layout has to list exactly these
+export const SIGNAL_FIELDS: Record<CircuitType, string[]> = {
+  shield: ['commitmentOut', 'nullifierHash', 'commitment', 'amount', 'recipient'],
+  unshield: [
+    'nullifierHash',
+    'inputCommitment',
+    'outputAmountOut',
+    'changeCommitment',
+    'changeAmountOut',
+    'recipientOut',
+    'outputAmount',
+    'changeAmount',
+    'recipient'
+  ],
+  transfer: [
+    'nullifierHash',
+    'inputCommitment',
+    'outputCommitment',
+    'outputAmountOut',
+    'changeCommitment',
+    'changeAmountOut',
+    'recipientOut',
+    'outputAmount',
+    'changeAmount',
+    'recipient'
+  ]
+};
+
+export class PublicSignalsError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PublicSignalsError';
+  }
+}
+
+/**
+ * Describe how a layout differs from the circuit's named signals (null when it lists exactly those)
+ */
+export function describeLayoutMismatch(circuitType: CircuitType, layout: string[]): string | null {
+  const expected = SIGNAL_FIELDS[circuitType];
+  const missing = expected.filter(field => !layout.includes(field));
+  const unknown = layout.filter(field => !expected.includes(field));
+
+  if (missing.length === 0 && unknown.length === 0 && layout.length === expected.length) {
+    return null;
+  }
+
+  return [
+    missing.length > 0 ? `missing ${missing.join(', ')}` : '',
+    unknown.length > 0 ? `unknown ${unknown.join(', ')}` : '',
+    layout.length !== new Set(layout).size ? 'duplicate names' : ''
+  ].filter(Boolean).join('; ');
+}
+
+/**
+ * Map a circuit's publicSignals array to named fields
+ * Throws PublicSignalsError unless the array has exactly nPublic entries
+ */
+export function decodePublicSignals<T extends CircuitType>(
+  circuitType: T,
+  layout: string[],
+  nPublic: number,
+  publicSignals: string[]
+): CircuitSignals[T] {
+  if (!Array.isArray(publicSignals)) {
+    throw new PublicSignalsError(`${circuitType} public signals must be an array`);
+  }
+
+  if (publicSignals.length !== nPublic || layout.length !== nPublic) {
+    throw new PublicSignalsError(
+      `${circuitType} expects ${nPublic} public signals, received ${publicSignals.length}`
+    );
+  }
+
+  const decoded: Record<string, string> = {};
+  layout.forEach((field, i) => {
+    decoded[field] = String(publicSignals[i]);
+  });
+  return decoded as unknown as CircuitSignals[T];
+}
+
+/**
+ * Lay out named fields as a circuit's publicSignals array
+ * Throws PublicSignalsError if a field in the layout has no value
+ */
+export function encodePublicSignals<T extends CircuitType>(
+  circuitType: T,
+  layout: string[],
+  signals: CircuitSignals[T]
+): string[] {
+  return layout.map(field => {
+    const value = (signals as unknown as Record<string, string | undefined>)[field];
+    if (value === undefined || value === null) {
+      throw new PublicSignalsError(`${circuitType} public signal ${field} has no value`);
+    }
+    return String(value);
+  });
+}
@@ -0,0 +1,135 @@
+import { ethers } from 'ethers';
+import { CircuitType } from './proof-generator';
+import { ChainContext } from './chain-registry';
+import { TokenInfo } from './token-registry';
+import { relayer } from './relayer';
+import { describeAmount, AmountValue } from '../utils/amounts';
+
+/**
+ * Relayer Fee Service
+ * Quotes what it costs the relayer to submit a proof: the transaction's gas cost at the current gas price plus a
+ * margin, converted into the note's token using the token's configured nativePrice. No circuit version in the
+ * manifest proves a fee yet, so the pool pays nothing out of the note; a quote only tells the client what relaying
+ * costs.
+ *
+ * Configured through:
+ *   RELAYER_FEE_MARGIN_PERCENT - added on top of the gas cost to cover price movement (default 20)
+ *   RELAYER_QUOTE_TTL_MS       - how long a quote (and the gas price behind it) is valid (default 60 seconds)
+ */
+
+// Gas the pool's spend entry points use, with headroom for the Groth16 verifier
+export const RELAY_GAS_LIMITS: Partial<Record<CircuitType, bigint>> = {
+  unshield: 450_000n,
+  transfer: 500_000n
+};
+
+export interface FeeQuote {
+  chainId: number;
+  circuitType: CircuitType;
+  token: { address: string; symbol: string; decimals: number };
+  relayer: string;
+  gasLimit: string;
+  gasPrice: string;  // wei
+  marginPercent: number;
+  fee: AmountValue;  // in the token's base units
+  quotedAt: string;
+  expiresAt: string;
+}
+
+export class FeeQuoteError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'FeeQuoteError';
+  }
+}
+
+interface CachedGasPrice {
+  gasPrice: bigint;
+  expiresAt: number;
+}
+
+export class RelayerFeeService {
+  private marginPercent: number;
+  private ttlMs: number;
+  private gasPrices: Map<number, CachedGasPrice> = new Map();
+
+  constructor() {
+    this.marginPercent = parseInt(process.env.RELAYER_FEE_MARGIN_PERCENT || '20', 10);
+    this.ttlMs = parseInt(process.env.RELAYER_QUOTE_TTL_MS || '60000', 10);
+  }
+
+  /**
+   * Quote what relaying a proof on a chain costs, priced in the given token. Nothing collects it: proofs have no
+   * fee or relayer input, so the relayer submits at its own expense
+   * Throws FeeQuoteError when the relayer doesn't serve the chain, the circuit isn't quoted, or the token has no price
+   */
+  async quote(chain: ChainContext, token: TokenInfo, circuitType: CircuitType): Promise<FeeQuote> {
+    const { chainId } = chain.config;
+
+    if (!relayer.isEnabledFor(chainId)) {
+      throw new FeeQuoteError(
+        relayer.isEnabled() ? `Relayer has no pool configured on chain ${chainId}` : 'Relayer mode is not enabled'
+      );
+    }
+
+    const gasLimit = RELAY_GAS_LIMITS[circuitType];
+    if (!gasLimit) {
+      throw new FeeQuoteError(`${circuitType} proofs are not quoted`);
+    }
+
+    if (!token.nativePrice) {
+      throw new FeeQuoteError(`No price configured for ${token.symbol} on chain ${chainId}; relayer fees can't be quoted in it`);
+    }
+
+    const gasPrice = await this.getGasPrice(chain);
+    const costWei = gasLimit * gasPrice * BigInt(100 + this.marginPercent) / 100n;
+
+    // nativePrice is the value of one whole token in native currency; round the fee up to the next base unit
+    const priceWei = ethers.parseUnits(token.nativePrice, 18);
+    const scale = 10n ** BigInt(token.decimals);
+    const fee = (costWei * scale + priceWei - 1n) / priceWei;
+
+    const now = Date.now();
+    return {
+      chainId,
+      circuitType,
+      token: { address: token.address, symbol: token.symbol, decimals: token.decimals },
+      relayer: relayer.getAddress()!,
+      gasLimit: gasLimit.toString(),
+      gasPrice: gasPrice.toString(),
+      marginPercent: this.marginPercent,
+      fee: describeAmount(fee, token.decimals),
+      quotedAt: new Date(now).toISOString(),
+      expiresAt: new Date(now + this.ttlMs).toISOString()
+    };
+  }
+
+  /**
+   * Current gas price on a chain (EIP-1559 max fee when available), cached for the quote TTL
+   */
+  private async getGasPrice(chain: ChainContext): Promise<bigint> {
+    const { chainId } = chain.config;
+    const cached = this.gasPrices.get(chainId);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.gasPrice;
+    }
+
+    let feeData: ethers.FeeData;
+    try {
+      feeData = await chain.provider.getFeeData();
+    } catch (error: any) {
+      throw new Error(`Could not read the gas price on chain ${chainId}: ${error.shortMessage || error.message}`);
+    }
+
+    const gasPrice = feeData.maxFeePerGas ?? feeData.gasPrice;
+    if (gasPrice === null) {
+      throw new Error(`Chain ${chainId} did not report a gas price`);
+    }
+
+    this.gasPrices.set(chainId, { gasPrice, expiresAt: Date.now() + this.ttlMs });
+    return gasPrice;
+  }
+}
+
+// Export singleton instance
+export const relayerFees = new RelayerFeeService();
@@ -0,0 +1,121 @@
+import { ethers } from 'ethers';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ChainContext } from './chain-registry';
+import { FileRelayStore, RelayerDependencies, RelayerService } from './relayer';
+
+const CHAIN_ID = 11155111;
+const TX_HASH = '0x' + 'ab'.repeat(32);
+const PROOF = { pi_a: [], pi_b: [], pi_c: [] };
+
+describe('RelayerService', () => {
+  let dir: string;
+  let receipt: { blockNumber: number; status: number; gasUsed: bigint; confirmations: () => Promise<number> } | null;
+  let send: ReturnType<typeof vi.fn>;
+  let dependencies: RelayerDependencies;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'relayer-'));
+    process.env.RELAYER_ENABLED = 'true';
+    process.env.RELAYER_PRIVATE_KEY = ethers.Wallet.createRandom().privateKey;
+    process.env.RELAYER_CONFIRMATIONS = '2';
+    process.env.RELAYER_POLL_INTERVAL_MS = '0';
+
+    receipt = null;
+    send = Object.assign(vi.fn().mockResolvedValue({ hash: TX_HASH }), { estimateGas: vi.fn().mockResolvedValue(21000n) });
+
+    const chain = {
+      config: { chainId: CHAIN_ID, name: 'sepolia', poolAddress: '0x' + '11'.repeat(20) },
+      provider: {
+        getBalance: async () => 0n,
+        getTransactionReceipt: async () => receipt
+      },
+      proofGenerator: {
+        verifyProofDetailed: async () => ({ valid: true, reason: 'ok', circuitVersion: '1.0.0', decodedSignals: { nullifierHash: '7' } }),
+        exportSolidityCalldata: async () => ({ a: [], b: [], c: [], input: [] })
+      }
+    } as unknown as ChainContext;
+
+    dependencies = {
+      store: new FileRelayStore(path.join(dir, 'relayed.json')),
+      chains: { get: () => chain, list: () => [chain] },
+      nullifiers: { isSpent: vi.fn().mockResolvedValue(false), recordSpend: vi.fn().mockResolvedValue(undefined) },
+      connectPool: () => ({ getFunction: () => send }) as unknown as ethers.Contract
+    };
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+    for (const name of ['RELAYER_ENABLED', 'RELAYER_PRIVATE_KEY', 'RELAYER_CONFIRMATIONS', 'RELAYER_POLL_INTERVAL_MS']) {
+      delete process.env[name];
+    }
+  });
+
+  async function open(store = dependencies.store): Promise<RelayerService> {
+    const relayer = new RelayerService({ ...dependencies, store });
+    await relayer.initialize();
+    return relayer;
+  }
+
+  const confirmedAfter = (confirmations: number) => ({
+    blockNumber: 100,
+    status: 1,
+    gasUsed: 50000n,
+    confirmations: async () => confirmations
+  });
+
+  it('refuses shield proofs, whose payable deposit only the depositor can send', async () => {
+    const relayer = await open();
+
+    await expect(relayer.submit(CHAIN_ID, 'shield', PROOF, [])).rejects.toThrow(/can't be relayed/);
+    expect(send).not.toHaveBeenCalled();
+  });
+
+  it('refuses a spend whose nullifier is already recorded', async () => {
+    vi.mocked(dependencies.nullifiers.isSpent).mockResolvedValue(true);
+    const relayer = await open();
+
+    await expect(relayer.submit(CHAIN_ID, 'unshield', PROOF, [])).rejects.toThrow('Nullifier has already been spent');
+    expect(send).not.toHaveBeenCalled();
+  });
+
+  it('keeps submitted transactions across restarts', async () => {
+    await (await open()).submit(CHAIN_ID, 'unshield', PROOF, []);
+
+    const restarted = await open(new FileRelayStore(path.join(dir, 'relayed.json')));
+
+    expect(restarted.getTransaction(TX_HASH)).toMatchObject({ chainId: CHAIN_ID, status: 'pending', nullifierHash: '7' });
+  });
+
+  it('records the nullifier once the receipt has enough confirmations, without a status request', async () => {
+    const relayer = await open();
+    await relayer.submit(CHAIN_ID, 'transfer', PROOF, []);
+
+    receipt = confirmedAfter(1);
+    expect(await relayer.pollPending()).toBe(0);
+    expect(dependencies.nullifiers.recordSpend).not.toHaveBeenCalled();
+
+    receipt = confirmedAfter(2);
+    expect(await relayer.pollPending()).toBe(1);
+    expect(dependencies.nullifiers.recordSpend).toHaveBeenCalledWith(CHAIN_ID, '7', {
+      source: 'relayer',
+      txHash: TX_HASH,
+      blockNumber: 100
+    });
+
+    const restarted = await open(new FileRelayStore(path.join(dir, 'relayed.json')));
+    expect(restarted.getTransaction(TX_HASH)).toMatchObject({ status: 'confirmed', blockNumber: 100, confirmations: 2 });
+    expect(await restarted.pollPending()).toBe(0);
+  });
+
+  it('marks reverted transactions failed without recording the nullifier', async () => {
+    const relayer = await open();
+    await relayer.submit(CHAIN_ID, 'unshield', PROOF, []);
+    receipt = { ...confirmedAfter(5), status: 0 };
+
+    expect(await relayer.getStatus(TX_HASH)).toMatchObject({ status: 'failed' });
+    expect(dependencies.nullifiers.recordSpend).not.toHaveBeenCalled();
+  });
+});
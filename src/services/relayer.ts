@@ -0,0 +1,342 @@
+import { ethers } from 'ethers';
+import * as fs from 'fs';
+import * as path from 'path';
+import { CircuitType } from './proof-generator';
+import { DecodedSignals } from './public-signals';
+import { NullifierRegistryService, nullifierRegistry } from './nullifier-registry';
+import { ChainContext, ChainRegistryService, chainRegistry } from './chain-registry';
+import { POOL_ABI, POOL_METHODS } from '../constants/pool-abi';
+
+/**
+ * Relayer Service
+ * Submits spend proofs to the privacy pool from a relayer wallet so the user's own address never touches the pool.
+ * Shield proofs aren't relayed: the pool's shield is payable and takes the deposit from the sender, so only the
+ * depositor can submit it.
+ *
+ * Configured through:
+ *   RELAYER_ENABLED          - 'true' to turn relayer mode on
+ *   RELAYER_PRIVATE_KEY      - key of the wallet that signs and pays for submissions (same address on every chain)
+ *   RELAYER_CONFIRMATIONS    - confirmations before a transaction is reported as confirmed (default 1)
+ *   RELAYER_STORE_FILE       - where submitted transactions are kept across restarts (default data/relayed.json)
+ *   RELAYER_POLL_INTERVAL_MS - check pending transactions' receipts at this interval (default 15000, 0 disables)
+ *
+ * Pools and RPC endpoints come from the chain config; the relayer serves every chain with a poolAddress. A spend's
+ * nullifier is recorded once its transaction confirms, whether or not a client asks for the status.
+ */
+
+export const RELAYABLE_CIRCUITS = ['unshield', 'transfer'] as const;
+
+export type RelayStatus = 'pending' | 'confirmed' | 'failed';
+
+export interface RelayedTransaction {
+  chainId: number;
+  txHash: string;
+  circuitType: CircuitType;
+  circuitVersion?: string;
+  decodedSignals?: DecodedSignals;
+  status: RelayStatus;
+  submittedAt: string;
+  nullifierHash?: string;
+  blockNumber?: number;
+  confirmations?: number;
+  gasUsed?: string;
+}
+
+/**
+ * Storage for submitted transactions; swap in another implementation via the constructor
+ */
+export interface RelayStore {
+  load(): void;
+  get(txHash: string): RelayedTransaction | null;
+  put(relayed: RelayedTransaction): void;
+  list(): RelayedTransaction[];
+}
+
+/**
+ * JSON file store keyed by transaction hash, rewritten on every change
+ */
+export class FileRelayStore implements RelayStore {
+  private filePath: string;
+  private transactions: Record<string, RelayedTransaction> = {};
+
+  constructor(filePath: string) {
+    this.filePath = path.resolve(filePath);
+  }
+
+  load(): void {
+    if (fs.existsSync(this.filePath)) {
+      this.transactions = JSON.parse(fs.readFileSync(this.filePath, 'utf-8'));
+    }
+  }
+
+  get(txHash: string): RelayedTransaction | null {
+    return this.transactions[txHash] || null;
+  }
+
+  put(relayed: RelayedTransaction): void {
+    this.transactions[relayed.txHash] = relayed;
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    fs.writeFileSync(`${this.filePath}.tmp`, JSON.stringify(this.transactions));
+    fs.renameSync(`${this.filePath}.tmp`, this.filePath);
+  }
+
+  list(): RelayedTransaction[] {
+    return Object.values(this.transactions);
+  }
+}
+
+/**
+ * What the relayer works with; the defaults are the shared services, tests pass their own
+ */
+export interface RelayerDependencies {
+  store: RelayStore;
+  chains: Pick<ChainRegistryService, 'get' | 'list'>;
+  nullifiers: Pick<NullifierRegistryService, 'isSpent' | 'recordSpend'>;
+  connectPool: (chain: ChainContext, wallet: ethers.Wallet) => ethers.Contract;
+}
+
+export class RelayerService {
+  private enabled: boolean;
+  private wallet?: ethers.Wallet;
+  private pools: Map<number, ethers.Contract> = new Map();
+  private confirmations: number;
+  private pollInterval: number;
+  private pollTimer?: NodeJS.Timeout;
+  private store: RelayStore;
+  private chains: RelayerDependencies['chains'];
+  private nullifiers: RelayerDependencies['nullifiers'];
+  private connectPool: RelayerDependencies['connectPool'];
+
+  constructor(dependencies: Partial<RelayerDependencies> = {}) {
+    this.enabled = process.env.RELAYER_ENABLED === 'true';
+    this.confirmations = parseInt(process.env.RELAYER_CONFIRMATIONS || '1', 10);
+    this.pollInterval = parseInt(process.env.RELAYER_POLL_INTERVAL_MS || '15000', 10);
+    this.store = dependencies.store || new FileRelayStore(
+      process.env.RELAYER_STORE_FILE || path.resolve(__dirname, '../../data/relayed.json')
+    );
+    this.chains = dependencies.chains || chainRegistry;
+    this.nullifiers = dependencies.nullifiers || nullifierRegistry;
+    this.connectPool = dependencies.connectPool ||
+      ((chain, wallet) => new ethers.Contract(chain.config.poolAddress!, POOL_ABI, wallet.connect(chain.provider)));
+  }
+
+  /**
+   * Initialize the service (loads submitted transactions, connects the relayer wallet on each chain with a pool
+   * and starts polling pending receipts when relayer mode is on)
+   */
+  async initialize(): Promise<void> {
+    this.store.load();
+
+    if (!this.enabled) {
+      console.log('ℹ️  Relayer mode disabled. Proofs will be returned for client submission.');
+      return;
+    }
+
+    const privateKey = process.env.RELAYER_PRIVATE_KEY;
+    const chains = this.chains.list().filter(chain => chain.config.poolAddress);
+
+    if (!privateKey) {
+      throw new Error('RELAYER_PRIVATE_KEY is required when RELAYER_ENABLED=true');
+    }
+
+    if (chains.length === 0) {
+      throw new Error('RELAYER_ENABLED=true but no chain in the chain config has a poolAddress');
+    }
+
+    console.log('🔧 Initializing RelayerService...');
+    this.wallet = new ethers.Wallet(privateKey);
+
+    console.log('✅ Relayer wallet ready');
+    console.log('  Address:', this.wallet.address);
+
+    for (const chain of chains) {
+      const { config, provider } = chain;
+      this.pools.set(config.chainId, this.connectPool(chain, this.wallet));
+
+      try {
+        const balance = await provider.getBalance(this.wallet.address);
+        console.log(`  ${config.name} (${config.chainId}): pool ${config.poolAddress}, balance ${ethers.formatEther(balance)}`);
+      } catch (error: any) {
+        console.warn(`  ⚠️  ${config.name} (${config.chainId}): could not read relayer balance (${error.shortMessage || error.message})`);
+      }
+    }
+
+    if (this.pollInterval > 0) {
+      this.pollTimer = setInterval(() => this.pollPending().catch(error => {
+        console.error('❌ Relayed transaction poll failed:', error.message);
+      }), this.pollInterval);
+      this.pollTimer.unref();
+    }
+  }
+
+  isEnabled(): boolean {
+    return this.enabled;
+  }
+
+  /**
+   * Whether the relayer can submit on a chain (relayer mode on and a pool configured there)
+   */
+  isEnabledFor(chainId: number): boolean {
+    return this.enabled && this.pools.has(chainId);
+  }
+
+  getChainIds(): number[] {
+    return [...this.pools.keys()];
+  }
+
+  getAddress(): string | null {
+    return this.wallet?.address || null;
+  }
+
+  /**
+   * Verify a spend proof (against the key of the circuit version that produced it), then submit it to the pool
+   * contract from the relayer wallet
+   */
+  async submit(
+    chainId: number,
+    circuitType: CircuitType,
+    proof: any,
+    publicSignals: string[],
+    circuitVersion?: string
+  ): Promise<RelayedTransaction> {
+    if (!this.enabled) {
+      throw new Error('Relayer mode is not enabled');
+    }
+
+    if (!(RELAYABLE_CIRCUITS as readonly string[]).includes(circuitType)) {
+      throw new Error(`${circuitType} proofs can't be relayed; the depositor submits them with the deposit value`);
+    }
+
+    const pool = this.pools.get(chainId);
+    const chain = this.chains.get(chainId);
+    if (!pool || !chain) {
+      throw new Error(`Relayer has no pool configured for chain ${chainId}`);
+    }
+
+    const { proofGenerator } = chain;
+
+    // Don't spend gas on a proof the verifier contract will reject
+    const verification = await proofGenerator.verifyProofDetailed(proof, publicSignals, circuitType, circuitVersion);
+    if (!verification.valid) {
+      throw new Error(`Proof rejected before submission: ${verification.reason}`);
+    }
+
+    const { nullifierHash } = verification.decodedSignals!;
+    if (await this.nullifiers.isSpent(chainId, nullifierHash)) {
+      throw new Error('Nullifier has already been spent');
+    }
+
+    const { a, b, c, input } = await proofGenerator.exportSolidityCalldata(proof, publicSignals);
+
+    console.log(`📤 Submitting ${circuitType} transaction from relayer on chain ${chainId}...`);
+
+    const method = pool.getFunction(POOL_METHODS[circuitType]);
+
+    try {
+      // Surfaces contract reverts (e.g. spent nullifier) before broadcasting
+      await method.estimateGas(a, b, c, input);
+    } catch (error: any) {
+      throw new Error(`Transaction would revert: ${error.shortMessage || error.message}`);
+    }
+
+    const tx = await method(a, b, c, input);
+
+    const relayed: RelayedTransaction = {
+      chainId,
+      txHash: tx.hash,
+      circuitType,
+      circuitVersion: verification.circuitVersion,
+      decodedSignals: verification.decodedSignals,
+      status: 'pending',
+      submittedAt: new Date().toISOString(),
+      nullifierHash
+    };
+    this.store.put(relayed);
+
+    console.log('✅ Transaction submitted:', tx.hash);
+
+    return relayed;
+  }
+
+  /**
+   * A transaction this relayer submitted, as last seen (no receipt lookup); null if it didn't submit the hash
+   */
+  getTransaction(txHash: string): RelayedTransaction | null {
+    return this.store.get(txHash);
+  }
+
+  /**
+   * Look up the current status of a relayed transaction
+   * Returns null if the hash was not submitted by this relayer
+   */
+  async getStatus(txHash: string): Promise<RelayedTransaction | null> {
+    const relayed = this.store.get(txHash);
+    if (!relayed) {
+      return null;
+    }
+
+    return relayed.status === 'pending' ? this.refresh(relayed) : relayed;
+  }
+
+  /**
+   * Refresh every pending transaction's receipt; returns how many settled (confirmed or failed)
+   */
+  async pollPending(): Promise<number> {
+    let settled = 0;
+
+    for (const relayed of this.store.list().filter(tx => tx.status === 'pending')) {
+      try {
+        if ((await this.refresh(relayed)).status !== 'pending') {
+          settled++;
+        }
+      } catch (error: any) {
+        console.warn(`⚠️  Could not refresh relayed transaction ${relayed.txHash}: ${error.shortMessage || error.message}`);
+      }
+    }
+
+    return settled;
+  }
+
+  /**
+   * Read a pending transaction's receipt; once it has RELAYER_CONFIRMATIONS its nullifier is recorded as spent
+   */
+  private async refresh(relayed: RelayedTransaction): Promise<RelayedTransaction> {
+    const chain = this.chains.get(relayed.chainId);
+    if (!chain) {
+      return relayed;
+    }
+
+    const receipt = await chain.provider.getTransactionReceipt(relayed.txHash);
+    if (!receipt) {
+      return relayed;
+    }
+
+    const confirmations = await receipt.confirmations();
+    const updated: RelayedTransaction = {
+      ...relayed,
+      blockNumber: receipt.blockNumber,
+      confirmations,
+      gasUsed: receipt.gasUsed.toString()
+    };
+
+    if (receipt.status === 0) {
+      updated.status = 'failed';
+    } else if (confirmations >= this.confirmations) {
+      // Recorded before the status is saved, so a crash in between only repeats the (idempotent) record
+      if (updated.nullifierHash) {
+        await this.nullifiers.recordSpend(updated.chainId, updated.nullifierHash, {
+          source: 'relayer',
+          txHash: updated.txHash,
+          blockNumber: receipt.blockNumber
+        });
+      }
+      updated.status = 'confirmed';
+    }
+
+    this.store.put(updated);
+    return updated;
+  }
+}
+
+// Export singleton instance
+export const relayer = new RelayerService();
@@ -0,0 +1,33 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { ChainContext, chainRegistry } from './chain-registry';
+import { NATIVE_TOKEN_ADDRESS, TokenConfig, TokenNotSupportedError, TokenRegistryService } from './token-registry';
+
+const ETH: TokenConfig = { address: NATIVE_TOKEN_ADDRESS, symbol: 'ETH', decimals: 18, poolSupported: true };
+const USDC: TokenConfig = { address: '0x1c7d4b196cb0c7b01d743fbc6116a902379c7238', symbol: 'USDC', decimals: 6, poolSupported: false };
+
+function withTokens(tokens: TokenConfig[]) {
+  vi.spyOn(chainRegistry, 'list').mockReturnValue([{ config: { chainId: 1, tokens } } as unknown as ChainContext]);
+  return new TokenRegistryService();
+}
+
+describe('TokenRegistryService', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('refuses to admit a token other than the native asset to the pool', async () => {
+    const registry = withTokens([ETH, { ...USDC, poolSupported: true }]);
+
+    await expect(registry.initialize()).rejects.toThrow(/USDC on chain 1 can't be poolSupported/);
+  });
+
+  it('lists other tokens but refuses to resolve them for pool operations', async () => {
+    const registry = withTokens([ETH, USDC]);
+    await registry.initialize();
+
+    expect((await registry.listTokens(1)).map(token => token.symbol)).toEqual(['ETH', 'USDC']);
+    expect((await registry.resolveToken(1)).address).toBe(NATIVE_TOKEN_ADDRESS);
+    await expect(registry.resolveToken(1, 'USDC')).rejects.toThrow(TokenNotSupportedError);
+    await expect(registry.resolveToken(1, undefined, USDC.address)).rejects.toThrow(/not supported by the pool/);
+  });
+});
@@ -0,0 +1,184 @@
+import { ethers } from 'ethers';
+import { chainRegistry } from './chain-registry';
+
+/**
+ * Token Registry Service
+ * Allowlist of tokens per chain, with cached on-chain metadata for entries that don't pin their decimals.
+ * The allowlist comes from each chain's `tokens` in the chain config; metadata is read through that chain's RPC.
+ * Only the native asset may be poolSupported: v1 commitments and circuits don't bind a token, so a note shielded
+ * in one token could be unshielded as another. Other tokens can be listed (and priced for fee quotes) but not used.
+ *
+ * Configured through:
+ *   TOKEN_METADATA_TTL_MS - how long fetched ERC20 metadata is cached (default 1 hour)
+ */
+
+// Native ETH is listed under the zero address
+export const NATIVE_TOKEN_ADDRESS = ethers.ZeroAddress;
+
+const ERC20_ABI = [
+  'function decimals() view returns (uint8)',
+  'function symbol() view returns (string)'
+];
+
+export interface TokenConfig {
+  address: string;
+  symbol: string;
+  decimals?: number;
+  poolSupported: boolean;
+  nativePrice?: string;  // Value of one whole token in the chain's native currency, for relayer fee quotes
+}
+
+export interface TokenInfo {
+  chainId: number;
+  address: string;
+  symbol: string;
+  decimals: number;
+  poolSupported: boolean;
+  nativePrice: string | null;  // Always "1" for the native token; null when no price is configured
+}
+
+const DECIMAL_PRICE = /^\d+(\.\d+)?$/;
+
+export class TokenNotSupportedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TokenNotSupportedError';
+  }
+}
+
+interface CachedMetadata {
+  decimals: number;
+  symbol: string;
+  expiresAt: number;
+}
+
+export class TokenRegistryService {
+  private ttlMs: number;
+  private tokens: Map<number, TokenConfig[]> = new Map();
+  private metadata: Map<string, CachedMetadata> = new Map();
+
+  constructor() {
+    this.ttlMs = parseInt(process.env.TOKEN_METADATA_TTL_MS || '3600000', 10);
+  }
+
+  /**
+   * Initialize the service (validates each configured chain's allowlist; chain registry must be loaded first)
+   */
+  async initialize(): Promise<void> {
+    console.log('🔧 Initializing TokenRegistryService...');
+
+    for (const { config } of chainRegistry.list()) {
+      const { chainId, tokens } = config;
+
+      for (const token of tokens) {
+        if (!ethers.isAddress(token.address)) {
+          throw new Error(`Invalid token address for chain ${chainId}: ${token.address}`);
+        }
+        if (token.decimals !== undefined && (!Number.isInteger(token.decimals) || token.decimals < 0 || token.decimals > 36)) {
+          throw new Error(`Invalid decimals for ${token.symbol} on chain ${chainId}`);
+        }
+        if (token.poolSupported && ethers.getAddress(token.address) !== NATIVE_TOKEN_ADDRESS) {
+          throw new Error(`${token.symbol} on chain ${chainId} can't be poolSupported: the circuits don't bind a note's token`);
+        }
+        if (token.nativePrice && (!DECIMAL_PRICE.test(token.nativePrice) || Number(token.nativePrice) === 0)) {
+          throw new Error(`Invalid nativePrice for ${token.symbol} on chain ${chainId} (expected a positive decimal)`);
+        }
+      }
+
+      this.tokens.set(chainId, tokens.map(token => ({
+        ...token,
+        address: ethers.getAddress(token.address),
+        // Prices referencing an unset environment variable interpolate to ""
+        nativePrice: token.nativePrice || undefined
+      })));
+    }
+
+    console.log(`✅ Token registry loaded (${this.tokens.size} chains)`);
+  }
+
+  /**
+   * All allowlisted tokens for a chain, with resolved decimals
+   */
+  async listTokens(chainId: number): Promise<TokenInfo[]> {
+    const tokens = this.tokens.get(chainId) || [];
+    return Promise.all(tokens.map(token => this.toTokenInfo(chainId, token)));
+  }
+
+  /**
+   * Resolve a request's token (by address, else by symbol, default ETH)
+   * Throws TokenNotSupportedError for unlisted tokens or tokens the pool doesn't accept
+   */
+  async resolveToken(chainId: number, token?: string, tokenAddress?: string): Promise<TokenInfo> {
+    const tokens = this.tokens.get(chainId);
+    if (!tokens) {
+      throw new TokenNotSupportedError(`No tokens configured for chain ${chainId}`);
+    }
+
+    let entry: TokenConfig | undefined;
+    if (tokenAddress) {
+      if (!ethers.isAddress(tokenAddress)) {
+        throw new TokenNotSupportedError(`Invalid token address: ${tokenAddress}`);
+      }
+      entry = tokens.find(t => t.address === ethers.getAddress(tokenAddress));
+    } else {
+      const symbol = (token || 'ETH').toUpperCase();
+      entry = tokens.find(t => t.symbol.toUpperCase() === symbol);
+    }
+
+    if (!entry) {
+      throw new TokenNotSupportedError(`Token ${tokenAddress || token} is not supported on chain ${chainId}`);
+    }
+
+    if (!entry.poolSupported) {
+      throw new TokenNotSupportedError(`Token ${entry.symbol} is not supported by the pool on chain ${chainId}`);
+    }
+
+    return this.toTokenInfo(chainId, entry);
+  }
+
+  private async toTokenInfo(chainId: number, token: TokenConfig): Promise<TokenInfo> {
+    const decimals = token.decimals ?? (await this.fetchMetadata(chainId, token.address)).decimals;
+
+    return {
+      chainId,
+      address: token.address,
+      symbol: token.symbol,
+      decimals,
+      poolSupported: token.poolSupported,
+      nativePrice: token.address === NATIVE_TOKEN_ADDRESS ? '1' : token.nativePrice || null
+    };
+  }
+
+  /**
+   * Read decimals/symbol from the ERC20 contract, cached for the configured TTL
+   */
+  private async fetchMetadata(chainId: number, address: string): Promise<CachedMetadata> {
+    const key = `${chainId}:${address}`;
+    const cached = this.metadata.get(key);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached;
+    }
+
+    console.log(`🔍 Fetching ERC20 metadata for ${address}...`);
+
+    const chain = chainRegistry.get(chainId);
+    if (!chain) {
+      throw new TokenNotSupportedError(`No tokens configured for chain ${chainId}`);
+    }
+
+    const contract = new ethers.Contract(address, ERC20_ABI, chain.provider);
+    const [decimals, symbol] = await Promise.all([contract.decimals(), contract.symbol()]);
+
+    const metadata: CachedMetadata = {
+      decimals: Number(decimals),
+      symbol,
+      expiresAt: Date.now() + this.ttlMs
+    };
+    this.metadata.set(key, metadata);
+
+    return metadata;
+  }
+}
+
+// Export singleton instance
+export const tokenRegistry = new TokenRegistryService();
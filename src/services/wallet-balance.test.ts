@@ -0,0 +1,105 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ChainContext } from './chain-registry';
+import { noteDelivery, StoredNote } from './note-delivery';
+import { TokenInfo, tokenRegistry } from './token-registry';
+import { walletBalance } from './wallet-balance';
+import { NotePlaintext, encryptNote, generateViewingKeyPair } from '../utils/note-encryption';
+
+const TOKEN: TokenInfo = {
+  chainId: 11155111,
+  address: '0x0000000000000000000000000000000000000000',
+  symbol: 'ETH',
+  decimals: 18,
+  poolSupported: true,
+  nativePrice: '1'
+};
+
+// Stand-in hashes: distinct per input, decimal like the real Poseidon outputs
+const chain = {
+  config: { chainId: TOKEN.chainId },
+  proofGenerator: {
+    generateCommitment: (secret: string, nullifier: string, randomness: string) =>
+      (BigInt(secret) * 1_000_000n + BigInt(nullifier) * 1_000n + BigInt(randomness)).toString(),
+    generateNullifierHash: (nullifier: string, randomness: string) => (BigInt(nullifier) * 1_000n + BigInt(randomness)).toString()
+  }
+} as unknown as ChainContext;
+
+const keys = generateViewingKeyPair();
+
+function note(overrides: Partial<NotePlaintext> = {}): NotePlaintext {
+  return { commitment: '1002003', secret: '1', nullifier: '2', randomness: '3', amount: '500', token: 'ETH', ...overrides };
+}
+
+function stored(plaintext: NotePlaintext, publicKey = keys.publicKey): StoredNote {
+  return { ...encryptNote(plaintext, publicKey), index: 0, createdAt: new Date().toISOString() };
+}
+
+describe('WalletBalanceService.notesForViewingKey', () => {
+  let delivered: StoredNote[];
+
+  beforeEach(() => {
+    delivered = [];
+    vi.spyOn(noteDelivery, 'list').mockImplementation((from = 0, limit = Infinity) => delivered.slice(from, from + limit));
+    vi.spyOn(noteDelivery, 'count').mockImplementation(() => delivered.length);
+    vi.spyOn(tokenRegistry, 'resolveToken').mockResolvedValue(TOKEN);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  const scan = async (from = 0, limit = 1000) => (await walletBalance.notesForViewingKey(chain, keys.privateKey, from, limit)).notes;
+
+  it('opens a note whose secrets hash to its commitment', async () => {
+    delivered = [stored(note())];
+
+    expect(await scan()).toEqual([
+      { token: TOKEN, amount: 500n, commitment: '1002003', nullifierHash: '2003', source: 'viewingKey' }
+    ]);
+  });
+
+  it('skips notes that are malformed, forged or for another key, and keeps the rest', async () => {
+    delivered = [
+      stored(note({ amount: '1.5' })),
+      stored(note({ amount: undefined as any })),
+      stored(note({ secret: 'not-a-field-element' })),
+      // Claims someone else's commitment with secrets that don't open it
+      stored(note({ secret: '9', amount: '1000000' })),
+      stored(note(), generateViewingKeyPair().publicKey),
+      stored(note({ commitment: '4005006', secret: '4', nullifier: '5', randomness: '6', amount: '7' }))
+    ];
+
+    const notes = await scan();
+
+    expect(notes.map(({ commitment, amount }) => ({ commitment, amount }))).toEqual([{ commitment: '4005006', amount: 7n }]);
+  });
+
+  it('skips a note whose envelope commitment differs from the one it encrypts', async () => {
+    delivered = [{ ...stored(note()), commitment: '4005006' }];
+
+    expect(await scan()).toEqual([]);
+  });
+
+  it('skips notes in tokens the chain does not list', async () => {
+    vi.mocked(tokenRegistry.resolveToken).mockRejectedValue(new Error('Token not supported'));
+    delivered = [stored(note())];
+
+    expect(await scan()).toEqual([]);
+  });
+
+  it('scans one page of the note log and says where the next one starts', async () => {
+    delivered = [
+      stored(note()),
+      stored(note(), generateViewingKeyPair().publicKey),
+      stored(note({ commitment: '4005006', secret: '4', nullifier: '5', randomness: '6', amount: '7' }))
+    ];
+
+    const first = await walletBalance.notesForViewingKey(chain, keys.privateKey, 0, 2);
+    expect(first).toMatchObject({ from: 0, scanned: 2, nextFrom: 2, total: 3 });
+    expect(first.notes.map(n => n.commitment)).toEqual(['1002003']);
+
+    const second = await walletBalance.notesForViewingKey(chain, keys.privateKey, first.nextFrom, 2);
+    expect(second).toMatchObject({ from: 2, scanned: 1, nextFrom: 3, total: 3 });
+    expect(second.notes.map(n => n.commitment)).toEqual(['4005006']);
+  });
+});
@@ -0,0 +1,213 @@
+import { ethers } from 'ethers';
+import { ChainContext } from './chain-registry';
+import { TokenInfo, tokenRegistry } from './token-registry';
+import { eventIndexer } from './event-indexer';
+import { nullifierRegistry } from './nullifier-registry';
+import { noteDelivery, StoredNote } from './note-delivery';
+import { decryptNote, matchesViewTag, NotePlaintext } from '../utils/note-encryption';
+import { AmountValue, describeAmount } from '../utils/amounts';
+import { toFieldElement } from '../utils/field';
+
+/**
+ * Wallet Balance Service
+ * Reconstructs a wallet's shielded balance from its notes. Each note's commitment and nullifier hash are looked up
+ * in the event index, the commitment tree and the nullifier registry to tell unspent notes from spent ones and
+ * from ones whose deposit isn't confirmed yet.
+ *
+ * Note statuses:
+ *   unspent     - commitment confirmed on chain, nullifier not spent; counts towards the balance
+ *   unconfirmed - commitment seen in a block that isn't INDEXER_CONFIRMATIONS deep yet
+ *   spent       - nullifier in the nullifier registry (a confirmed spend, or one submitted through this relayer)
+ *   unknown     - commitment not seen on this chain (not deposited yet, or belongs to another chain)
+ */
+
+export type NoteStatus = 'unspent' | 'unconfirmed' | 'spent' | 'unknown';
+
+export interface WalletNote {
+  token: TokenInfo;
+  amount: bigint;  // base units
+  commitment: string;
+  nullifierHash: string;
+  source: 'request' | 'viewingKey';
+  requestIndex?: number;  // position in the request's notes
+}
+
+export interface NoteBalanceEntry {
+  commitment: string;
+  nullifierHash: string;
+  token: { address: string; symbol: string };
+  amount: AmountValue;
+  status: NoteStatus;
+  confirmations: number | null;
+  spentIn: string | null;  // transaction that spent the note, when known
+  source: WalletNote['source'];
+  requestIndex?: number;
+}
+
+export interface TokenBalance {
+  token: { address: string; symbol: string; decimals: number };
+  balance: AmountValue;  // unspent notes
+  unconfirmed: AmountValue;  // incoming notes still waiting for confirmations
+  notes: Record<NoteStatus, number>;
+}
+
+export interface ViewingKeyScan {
+  notes: WalletNote[];
+  from: number;
+  scanned: number;  // delivered notes checked, matching or not
+  nextFrom: number;  // from for the next page; equal to total once every delivered note has been scanned
+  total: number;
+}
+
+export class WalletBalanceService {
+  /**
+   * Decrypt the notes delivered to a viewing key within one page of the note log, keeping those whose token the
+   * chain supports. Every delivered note has to be tried, so wallets page through the log like GET /notes does.
+   * Anyone can deliver a note to a viewing key, so each one is checked on its own: notes that fail to decrypt
+   * (view tag collisions), carry a malformed amount or secrets, or whose secrets don't hash to the
+   * delivered commitment are skipped.
+   */
+  async notesForViewingKey(chain: ChainContext, viewingPrivateKey: string, from: number, limit: number): Promise<ViewingKeyScan> {
+    const notes: WalletNote[] = [];
+    const page = noteDelivery.list(from, limit);
+
+    for (const stored of page) {
+      try {
+        if (!matchesViewTag(stored, viewingPrivateKey)) {
+          continue;
+        }
+
+        const note = await this.openDeliveredNote(chain, stored, viewingPrivateKey);
+        if (note) {
+          notes.push(note);
+        }
+      } catch {
+        continue;
+      }
+    }
+
+    return { notes, from, scanned: page.length, nextFrom: from + page.length, total: noteDelivery.count() };
+  }
+
+  /**
+   * Decrypt and check one delivered note; null when it doesn't belong to this chain or doesn't match its commitment
+   * Throws for notes that can't be decrypted or are malformed.
+   */
+  private async openDeliveredNote(
+    chain: ChainContext,
+    stored: StoredNote,
+    viewingPrivateKey: string
+  ): Promise<WalletNote | null> {
+    const { chainId } = chain.config;
+    const plaintext: NotePlaintext = decryptNote(stored, viewingPrivateKey);
+
+    if (typeof plaintext.amount !== 'string' || !/^[0-9]+$/.test(plaintext.amount)) {
+      return null;
+    }
+
+    let token: TokenInfo;
+    try {
+      token = ethers.isAddress(plaintext.token)
+        ? await tokenRegistry.resolveToken(chainId, undefined, plaintext.token)
+        : await tokenRegistry.resolveToken(chainId, plaintext.token);
+    } catch {
+      // Encrypted notes aren't scoped to a chain; a token this chain doesn't list means the note isn't for it
+      return null;
+    }
+
+    // The delivered commitment is only a claim; count the note under the commitment its secrets produce
+    const commitment = chain.proofGenerator.generateCommitment(plaintext.secret, plaintext.nullifier, plaintext.randomness);
+    if (commitment !== toFieldElement(stored.commitment) || commitment !== toFieldElement(plaintext.commitment)) {
+      return null;
+    }
+
+    return {
+      token,
+      amount: BigInt(plaintext.amount),
+      commitment,
+      nullifierHash: chain.proofGenerator.generateNullifierHash(plaintext.nullifier, plaintext.randomness),
+      source: 'viewingKey'
+    };
+  }
+
+  /**
+   * Look up every note's status and total the unspent and unconfirmed amounts per token
+   * Notes listed twice (e.g. in the request and under the viewing key) are counted once.
+   */
+  async getBalance(chain: ChainContext, notes: WalletNote[]): Promise<{ balances: TokenBalance[]; notes: NoteBalanceEntry[] }> {
+    const unique = notes.filter((note, i) => notes.findIndex(other => other.commitment === note.commitment) === i);
+    const balances = new Map<string, { token: TokenInfo; balance: bigint; unconfirmed: bigint; notes: Record<NoteStatus, number> }>();
+    const entries: NoteBalanceEntry[] = [];
+
+    for (const note of unique) {
+      const { status, confirmations, spentIn } = await this.getNoteStatus(chain, note);
+
+      const total = balances.get(note.token.address) || {
+        token: note.token,
+        balance: 0n,
+        unconfirmed: 0n,
+        notes: { unspent: 0, unconfirmed: 0, spent: 0, unknown: 0 }
+      };
+      if (status === 'unspent') {
+        total.balance += note.amount;
+      } else if (status === 'unconfirmed') {
+        total.unconfirmed += note.amount;
+      }
+      total.notes[status]++;
+      balances.set(note.token.address, total);
+
+      entries.push({
+        commitment: note.commitment,
+        nullifierHash: note.nullifierHash,
+        token: { address: note.token.address, symbol: note.token.symbol },
+        amount: describeAmount(note.amount, note.token.decimals),
+        status,
+        confirmations,
+        spentIn,
+        source: note.source,
+        ...(note.requestIndex !== undefined ? { requestIndex: note.requestIndex } : {})
+      });
+    }
+
+    return {
+      balances: [...balances.values()].map(total => ({
+        token: { address: total.token.address, symbol: total.token.symbol, decimals: total.token.decimals },
+        balance: describeAmount(total.balance, total.token.decimals),
+        unconfirmed: describeAmount(total.unconfirmed, total.token.decimals),
+        notes: total.notes
+      })),
+      notes: entries
+    };
+  }
+
+  private async getNoteStatus(
+    chain: ChainContext,
+    note: WalletNote
+  ): Promise<{ status: NoteStatus; confirmations: number | null; spentIn: string | null }> {
+    const { chainId } = chain.config;
+    const indexed = await eventIndexer.getCommitmentStatus(chainId, note.commitment, note.nullifierHash);
+
+    if (indexed) {
+      return {
+        status: indexed.status === 'confirmed' ? 'unspent' : indexed.status === 'pending' ? 'unconfirmed' : 'spent',
+        confirmations: indexed.confirmations,
+        spentIn: indexed.spend?.txHash ?? null
+      };
+    }
+
+    // Without the indexer, fall back to the nullifier registry and the commitment tree
+    const spend = await nullifierRegistry.getRecord(chainId, note.nullifierHash);
+    if (spend) {
+      return { status: 'spent', confirmations: null, spentIn: spend.txHash ?? null };
+    }
+
+    return {
+      status: chain.merkleTree.hasCommitment(note.commitment) ? 'unspent' : 'unknown',
+      confirmations: null,
+      spentIn: null
+    };
+  }
+}
+
+// Export singleton instance
+export const walletBalance = new WalletBalanceService();
@@ -0,0 +1,28 @@
+import { describe, expect, it } from 'vitest';
+import { AmountError, parseAmount, resolveSpendAmounts } from './amounts';
+import { SNARK_SCALAR_FIELD } from './field';
+
+describe('parseAmount', () => {
+  it('converts a decimal amount to base units', () => {
+    expect(parseAmount('1.5', 18, 'amount')).toBe(1_500_000_000_000_000_000n);
+  });
+
+  it('bounds amounts by the scalar field when the circuit declares no amountBits', () => {
+    expect(parseAmount((SNARK_SCALAR_FIELD - 1n).toString(), 0, 'amount')).toBe(SNARK_SCALAR_FIELD - 1n);
+    expect(() => parseAmount(SNARK_SCALAR_FIELD.toString(), 0, 'amount')).toThrow(AmountError);
+  });
+
+  it("bounds amounts by the circuit's amountBits when declared", () => {
+    expect(parseAmount('255', 0, 'amount', 8)).toBe(255n);
+    expect(() => parseAmount('256', 0, 'amount', 8)).toThrow(/8-bit amount range/);
+  });
+});
+
+describe('resolveSpendAmounts', () => {
+  it('applies amountBits to every part of the spend', () => {
+    expect(() => resolveSpendAmounts({ inputAmount: '300', outputAmount: '1' }, 0, 8)).toThrow(
+      expect.objectContaining({ field: 'inputAmount' })
+    );
+    expect(resolveSpendAmounts({ inputAmount: '200', outputAmount: '150' }, 0, 8)).toEqual({ input: 200n, output: 150n, change: 50n });
+  });
+});
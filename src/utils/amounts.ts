@@ -0,0 +1,128 @@
+import { ethers } from 'ethers';
+import { SNARK_SCALAR_FIELD } from './field';
+
+/**
+ * Amount helpers
+ * All arithmetic and validation happens on integer base units (bigint) once token decimals are known
+ */
+
+// Every circuit signal is a BN254 scalar field element, so an amount the manifest doesn't bound
+// (see amountBits in circuit-manifest) must at least be a field element
+export const MAX_FIELD_AMOUNT = SNARK_SCALAR_FIELD - 1n;
+
+// Plain decimal amount with no sign or exponent ("1.5")
+export const DECIMAL_AMOUNT = /^\d+(\.\d+)?$/;
+
+export class AmountError extends Error {
+  field: string;
+  reason: string;
+
+  constructor(field: string, reason: string) {
+    super(`${field}: ${reason}`);
+    this.name = 'AmountError';
+    this.field = field;
+    this.reason = reason;
+  }
+}
+
+export interface AmountValue {
+  baseUnits: string;
+  formatted: string;
+}
+
+export interface SpendAmounts {
+  input: bigint;
+  output: bigint;
+  change: bigint;
+}
+
+/**
+ * Parse a human-readable decimal amount into base units
+ * Rejects exponents, signs, and more fractional digits than the token has
+ */
+export function parseAmount(value: any, decimals: number, field: string, amountBits?: number): bigint {
+  if (value === undefined || value === null || value === '') {
+    throw new AmountError(field, 'is required');
+  }
+
+  const text = typeof value === 'number' ? value.toString() : value;
+
+  if (typeof text !== 'string' || !DECIMAL_AMOUNT.test(text)) {
+    throw new AmountError(field, `"${value}" is not a plain decimal amount`);
+  }
+
+  const fraction = text.split('.')[1] || '';
+  if (fraction.length > decimals) {
+    throw new AmountError(field, `has ${fraction.length} decimal places, token supports at most ${decimals}`);
+  }
+
+  const baseUnits = ethers.parseUnits(text, decimals);
+  assertInCircuitRange(baseUnits, field, amountBits);
+  return baseUnits;
+}
+
+/**
+ * Check an amount against the circuit's range: amountBits from its manifest entry, else the scalar field
+ */
+export function assertInCircuitRange(baseUnits: bigint, field: string, amountBits?: number): void {
+  if (baseUnits < 0n) {
+    throw new AmountError(field, 'cannot be negative');
+  }
+
+  if (amountBits !== undefined) {
+    if (baseUnits >= 1n << BigInt(amountBits)) {
+      throw new AmountError(field, `exceeds the circuit's ${amountBits}-bit amount range`);
+    }
+  } else if (baseUnits > MAX_FIELD_AMOUNT) {
+    throw new AmountError(field, 'is not below the scalar field modulus');
+  }
+}
+
+export function formatAmount(baseUnits: bigint, decimals: number): string {
+  return ethers.formatUnits(baseUnits, decimals);
+}
+
+export function describeAmount(baseUnits: bigint, decimals: number): AmountValue {
+  return {
+    baseUnits: baseUnits.toString(),
+    formatted: formatAmount(baseUnits, decimals)
+  };
+}
+
+/**
+ * Parse input/output/change amounts for a spend, deriving change when omitted
+ * Guarantees input = output + change, output > 0 and everything within circuit range
+ */
+export function resolveSpendAmounts(
+  amounts: { inputAmount: any; outputAmount: any; changeAmount?: any },
+  decimals: number,
+  amountBits?: number
+): SpendAmounts {
+  const input = parseAmount(amounts.inputAmount, decimals, 'inputAmount', amountBits);
+  const output = parseAmount(amounts.outputAmount, decimals, 'outputAmount', amountBits);
+
+  if (input === 0n) {
+    throw new AmountError('inputAmount', 'must be greater than zero');
+  }
+
+  if (output === 0n) {
+    throw new AmountError('outputAmount', 'must be greater than zero');
+  }
+
+  if (output > input) {
+    throw new AmountError('outputAmount', 'exceeds inputAmount (change would be negative)');
+  }
+
+  const change = amounts.changeAmount !== undefined
+    ? parseAmount(amounts.changeAmount, decimals, 'changeAmount', amountBits)
+    : input - output;
+
+  if (input !== output + change) {
+    throw new AmountError(
+      'changeAmount',
+      `inputAmount (${formatAmount(input, decimals)}) must equal outputAmount + changeAmount (${formatAmount(output + change, decimals)})`
+    );
+  }
+
+  return { input, output, change };
+}
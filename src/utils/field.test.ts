@@ -0,0 +1,96 @@
+import * as crypto from 'crypto';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { FieldElementError, SNARK_SCALAR_FIELD, isFieldElement, parseFieldElement, randomFieldElement, toFieldElement } from './field';
+
+vi.mock('crypto', async importOriginal => {
+  const actual = await importOriginal<typeof import('crypto')>();
+  return { ...actual, randomBytes: vi.fn(actual.randomBytes) };
+});
+
+const P = SNARK_SCALAR_FIELD;
+
+describe('parseFieldElement', () => {
+  it('accepts the largest field element, p - 1', () => {
+    expect(parseFieldElement((P - 1n).toString())).toBe(P - 1n);
+    expect(parseFieldElement('0x' + (P - 1n).toString(16))).toBe(P - 1n);
+  });
+
+  it('rejects the modulus and anything above it instead of reducing', () => {
+    for (const value of [P, P + 1n, 2n ** 254n - 1n, 2n ** 256n - 1n]) {
+      expect(() => parseFieldElement(value.toString(), 'secret')).toThrow(FieldElementError);
+      expect(() => parseFieldElement('0x' + value.toString(16))).toThrow(/below the BN254 scalar field modulus/);
+    }
+  });
+
+  it('reads decimal and 0x-hex as the same element', () => {
+    expect(parseFieldElement('255')).toBe(255n);
+    expect(parseFieldElement('0xff')).toBe(255n);
+    expect(parseFieldElement('0xFF')).toBe(255n);
+  });
+
+  it('ignores leading zeros', () => {
+    expect(parseFieldElement('007')).toBe(7n);
+    expect(parseFieldElement('0x0000000a')).toBe(10n);
+    expect(parseFieldElement('0'.repeat(100) + (P - 1n).toString())).toBe(P - 1n);
+  });
+
+  it('rejects negatives, fractions, empty and non-numeric input, naming the field', () => {
+    for (const value of ['-1', '1.5', '', '0x', 'abc', ' 1', '1e3', null, undefined, {}, 1.5, Number.MAX_SAFE_INTEGER + 1]) {
+      expect(() => parseFieldElement(value, 'nullifier')).toThrow(/^nullifier: /);
+    }
+    expect(() => parseFieldElement(-1n)).toThrow(/must not be negative/);
+  });
+
+  it('accepts bigints and safe integers', () => {
+    expect(parseFieldElement(0)).toBe(0n);
+    expect(parseFieldElement(Number.MAX_SAFE_INTEGER)).toBe(BigInt(Number.MAX_SAFE_INTEGER));
+    expect(parseFieldElement(P - 1n)).toBe(P - 1n);
+  });
+});
+
+describe('toFieldElement', () => {
+  it('canonicalises to a decimal string', () => {
+    expect(toFieldElement('0x0a')).toBe('10');
+    expect(toFieldElement('007')).toBe('7');
+    expect(toFieldElement('0x' + (P - 1n).toString(16))).toBe((P - 1n).toString());
+  });
+});
+
+describe('isFieldElement', () => {
+  it('is true exactly below the modulus', () => {
+    expect(isFieldElement((P - 1n).toString())).toBe(true);
+    expect(isFieldElement(P.toString())).toBe(false);
+    expect(isFieldElement('-0')).toBe(false);
+  });
+});
+
+describe('randomFieldElement', () => {
+  afterEach(() => {
+    vi.mocked(crypto.randomBytes).mockClear();
+  });
+
+  it('draws 254 bits and retries draws at or above the modulus', () => {
+    // Masked to 254 bits, all-ones is 2^254 - 1; it and the modulus itself must be drawn again
+    vi.mocked(crypto.randomBytes)
+      .mockReturnValueOnce(Buffer.alloc(32, 0xff) as any)
+      .mockReturnValueOnce(Buffer.from(P.toString(16).padStart(64, '0'), 'hex') as any)
+      .mockReturnValueOnce(Buffer.concat([Buffer.alloc(31), Buffer.from([42])]) as any);
+
+    expect(randomFieldElement()).toBe('42');
+    expect(crypto.randomBytes).toHaveBeenCalledTimes(3);
+  });
+
+  it('keeps a draw just below the modulus', () => {
+    vi.mocked(crypto.randomBytes).mockReturnValueOnce(Buffer.from((P - 1n).toString(16).padStart(64, '0'), 'hex') as any);
+
+    expect(randomFieldElement()).toBe((P - 1n).toString());
+  });
+
+  it('returns canonical decimal field elements', () => {
+    for (let i = 0; i < 50; i++) {
+      const value = randomFieldElement();
+      expect(value).toMatch(/^(0|[1-9][0-9]*)$/);
+      expect(BigInt(value)).toBeLessThan(P);
+    }
+  });
+});
@@ -0,0 +1,89 @@
+import * as crypto from 'crypto';
+
+/**
+ * Field arithmetic
+ * BN254 scalar field elements are what circuits take as signals and notes use as secrets. Incoming values
+ * (decimal or 0x-hex) are validated and canonicalised to decimal strings. Values at or above the modulus are
+ * rejected rather than reduced, because a reduced secret describes a different note than the caller holds.
+ */
+
+// BN254 scalar field modulus; circuit signals and note secrets must be below it
+export const SNARK_SCALAR_FIELD =
+  21888242871839275222246405745257275088548364400416034343698204186575808495617n;
+
+// Bit length of the modulus; random draws are masked to this many bits before rejection
+const FIELD_BITS = 254;
+
+export const FIELD_ELEMENT_PATTERN = /^(0x[0-9a-fA-F]+|[0-9]+)$/;
+
+export class FieldElementError extends Error {
+  field: string;
+  reason: string;
+
+  constructor(field: string, reason: string) {
+    super(`${field}: ${reason}`);
+    this.name = 'FieldElementError';
+    this.field = field;
+    this.reason = reason;
+  }
+}
+
+/**
+ * Parse a field element from a decimal or 0x-hex string, a bigint or a safe integer
+ * Throws FieldElementError for anything else, negatives, and values at or above the modulus
+ */
+export function parseFieldElement(value: any, field = 'value'): bigint {
+  let parsed: bigint;
+
+  if (typeof value === 'bigint') {
+    parsed = value;
+  } else if (typeof value === 'number' && Number.isSafeInteger(value)) {
+    parsed = BigInt(value);
+  } else if (typeof value === 'string' && FIELD_ELEMENT_PATTERN.test(value)) {
+    parsed = BigInt(value);
+  } else {
+    throw new FieldElementError(field, 'must be a decimal or 0x-hex integer string');
+  }
+
+  if (parsed < 0n) {
+    throw new FieldElementError(field, 'must not be negative');
+  }
+
+  if (parsed >= SNARK_SCALAR_FIELD) {
+    throw new FieldElementError(field, 'must be below the BN254 scalar field modulus');
+  }
+
+  return parsed;
+}
+
+/**
+ * Canonical form of a field element: its decimal string (0x0a -> "10", "007" -> "7")
+ */
+export function toFieldElement(value: any, field = 'value'): string {
+  return parseFieldElement(value, field).toString();
+}
+
+export function isFieldElement(value: any): boolean {
+  try {
+    parseFieldElement(value);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Uniformly random field element, as a decimal string
+ * Draws 254 random bits and retries while the value is at or above the modulus (a draw is kept ~76% of the time)
+ */
+export function randomFieldElement(): string {
+  for (;;) {
+    const bytes = crypto.randomBytes(32);
+    bytes[0] &= 0xff >> (256 - FIELD_BITS);
+
+    const value = BigInt('0x' + bytes.toString('hex'));
+    if (value < SNARK_SCALAR_FIELD) {
+      return value.toString();
+    }
+  }
+}
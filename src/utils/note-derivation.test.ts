@@ -0,0 +1,74 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { describe, expect, it } from 'vitest';
+import { MAX_NOTE_INDEX, NoteDerivationError, NoteSequence, deriveNoteSecrets } from './note-derivation';
+import { SNARK_SCALAR_FIELD } from './field';
+
+interface NoteDerivationVector {
+  version: number;
+  spendingKey: string;
+  noteIndex: number;
+  secret: string;
+  nullifier: string;
+  randomness: string;
+}
+
+// The vectors are published in the spec; read them from there so the two can't drift apart
+function readVectors(): NoteDerivationVector[] {
+  const spec = fs.readFileSync(path.resolve(__dirname, '../../docs/note-derivation.md'), 'utf-8');
+  const section = spec.slice(spec.indexOf('## Test vectors'));
+  const json = section.match(/```json\n([\s\S]*?)```/);
+  if (!json) {
+    throw new Error('docs/note-derivation.md has no test vector block');
+  }
+  return JSON.parse(json[1]);
+}
+
+const VECTORS = readVectors();
+const KEY = VECTORS[1].spendingKey;
+
+describe('deriveNoteSecrets', () => {
+  it.each(VECTORS.map(vector => [`v${vector.version} note ${vector.noteIndex} of ${vector.spendingKey.slice(0, 10)}`, vector]))(
+    'reproduces the published vector for %s',
+    (_, vector) => {
+      expect(deriveNoteSecrets(vector.spendingKey, vector.noteIndex, vector.version)).toEqual({
+        secret: vector.secret,
+        nullifier: vector.nullifier,
+        randomness: vector.randomness
+      });
+    }
+  );
+
+  it('keeps every value below the scalar field modulus', () => {
+    for (const vector of VECTORS) {
+      for (const value of [vector.secret, vector.nullifier, vector.randomness]) {
+        expect(BigInt(value) < SNARK_SCALAR_FIELD).toBe(true);
+      }
+    }
+  });
+
+  it('accepts the spending key with or without 0x', () => {
+    expect(deriveNoteSecrets(KEY.slice(2), 0)).toEqual(deriveNoteSecrets(KEY, 0));
+  });
+
+  it.each([
+    ['derivationVersion', () => deriveNoteSecrets(KEY, 0, 2)],
+    ['spendingKey', () => deriveNoteSecrets('0x1234', 0)],
+    ['noteIndex', () => deriveNoteSecrets(KEY, -1)],
+    ['noteIndex', () => deriveNoteSecrets(KEY, MAX_NOTE_INDEX + 1)],
+    ['noteIndex', () => deriveNoteSecrets(KEY, 1.5)]
+  ])('rejects a bad %s', (field, derive) => {
+    expect(derive).toThrow(NoteDerivationError);
+    expect(derive).toThrow(expect.objectContaining({ field }));
+  });
+});
+
+describe('NoteSequence', () => {
+  it('derives consecutive indices and reports the next one', () => {
+    const sequence = new NoteSequence(KEY, 0);
+
+    expect(sequence.next()).toEqual(deriveNoteSecrets(KEY, 0));
+    expect(sequence.next()).toEqual(deriveNoteSecrets(KEY, 1));
+    expect(sequence.describe()).toEqual({ version: 1, noteIndices: [0, 1], nextNoteIndex: 2 });
+  });
+});
@@ -0,0 +1,117 @@
+import * as crypto from 'crypto';
+
+/**
+ * Deterministic note derivation (scheme v1)
+ * Derives a note's secret, nullifier and randomness from a wallet's 32-byte spending key and a note index, so a
+ * wallet that loses its notes can re-derive them and find their commitments on chain. Each value is
+ * HKDF-SHA256(spendingKey, salt, label || uint32be(noteIndex)) truncated to 31 bytes, which keeps it below the
+ * BN254 scalar field without reduction. The scheme and its test vectors are specified in
+ * docs/note-derivation.md; note-derivation.test.ts checks this implementation against them.
+ */
+
+export const NOTE_DERIVATION_VERSION = 1;
+export const SUPPORTED_NOTE_DERIVATION_VERSIONS = [1];
+export const MAX_NOTE_INDEX = 0xffffffff;
+
+const DERIVATION_SALT: Record<number, string> = {
+  1: 'veilon-note-derivation-v1'
+};
+
+const SPENDING_KEY = /^(0x)?[0-9a-fA-F]{64}$/;
+
+export interface NoteSecrets {
+  secret: string;
+  nullifier: string;
+  randomness: string;
+}
+
+export class NoteDerivationError extends Error {
+  field: string;
+  reason: string;
+
+  constructor(field: string, reason: string) {
+    super(`${field}: ${reason}`);
+    this.name = 'NoteDerivationError';
+    this.field = field;
+    this.reason = reason;
+  }
+}
+
+function deriveField(spendingKey: Buffer, salt: string, label: string, noteIndex: number): string {
+  const info = Buffer.alloc(label.length + 4);
+  info.write(label, 'utf-8');
+  info.writeUInt32BE(noteIndex, label.length);
+
+  const bytes = Buffer.from(crypto.hkdfSync('sha256', spendingKey, Buffer.from(salt, 'utf-8'), info, 31));
+  return BigInt('0x' + bytes.toString('hex')).toString();
+}
+
+/**
+ * Throw NoteDerivationError for a malformed spending key, an out-of-range note index or an unknown version
+ */
+export function assertDerivationInputs(spendingKey: string, noteIndex: number, version: number): void {
+  if (!SUPPORTED_NOTE_DERIVATION_VERSIONS.includes(version)) {
+    throw new NoteDerivationError(
+      'derivationVersion',
+      `${version} is not supported (supported: ${SUPPORTED_NOTE_DERIVATION_VERSIONS.join(', ')})`
+    );
+  }
+
+  if (typeof spendingKey !== 'string' || !SPENDING_KEY.test(spendingKey)) {
+    throw new NoteDerivationError('spendingKey', 'must be 32 bytes of hex');
+  }
+
+  if (!Number.isInteger(noteIndex) || noteIndex < 0 || noteIndex > MAX_NOTE_INDEX) {
+    throw new NoteDerivationError('noteIndex', `must be an integer from 0 to ${MAX_NOTE_INDEX}`);
+  }
+}
+
+/**
+ * Derive the secrets of the note at an index
+ */
+export function deriveNoteSecrets(
+  spendingKey: string,
+  noteIndex: number,
+  version: number = NOTE_DERIVATION_VERSION
+): NoteSecrets {
+  assertDerivationInputs(spendingKey, noteIndex, version);
+
+  const key = Buffer.from(spendingKey.replace(/^0x/, ''), 'hex');
+  const salt = DERIVATION_SALT[version];
+
+  return {
+    secret: deriveField(key, salt, 'secret', noteIndex),
+    nullifier: deriveField(key, salt, 'nullifier', noteIndex),
+    randomness: deriveField(key, salt, 'randomness', noteIndex)
+  };
+}
+
+/**
+ * Derives notes at consecutive indices for one request, recording which indices were used
+ */
+export class NoteSequence {
+  private spendingKey: string;
+  private nextIndex: number;
+  private version: number;
+  private used: number[] = [];
+
+  constructor(spendingKey: string, firstIndex: number, version: number = NOTE_DERIVATION_VERSION) {
+    assertDerivationInputs(spendingKey, firstIndex, version);
+    this.spendingKey = spendingKey;
+    this.nextIndex = firstIndex;
+    this.version = version;
+  }
+
+  next(): NoteSecrets {
+    const secrets = deriveNoteSecrets(this.spendingKey, this.nextIndex, this.version);
+    this.used.push(this.nextIndex++);
+    return secrets;
+  }
+
+  /**
+   * Indices used so far and the one the wallet should start from next time
+   */
+  describe(): { version: number; noteIndices: number[]; nextNoteIndex: number } {
+    return { version: this.version, noteIndices: [...this.used], nextNoteIndex: this.nextIndex };
+  }
+}
@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { NotePlaintext, decryptNote, encryptNote, generateViewingKeyPair, matchesViewTag } from './note-encryption';
+
+const NOTE: NotePlaintext = {
+  commitment: '1002003',
+  secret: '1',
+  nullifier: '2',
+  randomness: '3',
+  amount: '500',
+  token: '0x0000000000000000000000000000000000000000'
+};
+
+describe('note encryption', () => {
+  const recipient = generateViewingKeyPair();
+
+  it('round-trips a note through the recipient viewing key', () => {
+    const encrypted = encryptNote(NOTE, recipient.publicKey);
+
+    expect(matchesViewTag(encrypted, recipient.privateKey)).toBe(true);
+    expect(decryptNote(encrypted, recipient.privateKey)).toEqual(NOTE);
+  });
+
+  it('derives the view tag per note from the shared secret, not from the recipient key', () => {
+    const tags = new Set(Array.from({ length: 16 }, () => encryptNote(NOTE, recipient.publicKey).viewTag));
+
+    // Sixteen notes to one key all landing on the same tag has probability 256^-15
+    expect(tags.size).toBeGreaterThan(1);
+  });
+
+  it('rejects a note whose tag was changed', () => {
+    const encrypted = encryptNote(NOTE, recipient.publicKey);
+    const viewTag = ((parseInt(encrypted.viewTag, 16) + 1) % 256).toString(16).padStart(2, '0');
+
+    expect(matchesViewTag({ ...encrypted, viewTag }, recipient.privateKey)).toBe(false);
+  });
+
+  it('refuses to decrypt notes addressed to another key', () => {
+    const encrypted = encryptNote(NOTE, generateViewingKeyPair().publicKey);
+
+    expect(() => decryptNote(encrypted, recipient.privateKey)).toThrow();
+  });
+});
@@ -0,0 +1,244 @@
+import * as crypto from 'crypto';
+
+/**
+ * Note encryption (format v1)
+ * ECIES over X25519 + HKDF-SHA256 + AES-256-GCM, so only the holder of a viewing key can read a note.
+ * The byte-level format is specified in docs/note-encryption.md; keep the two in sync.
+ */
+
+export const NOTE_ENCRYPTION_VERSION = 1;
+
+const HKDF_INFO = 'veilon-note-v1';
+const VIEW_TAG_DOMAIN = 'veilon-view-tag-v1';
+
+export interface NotePlaintext {
+  commitment: string;
+  secret: string;
+  nullifier: string;
+  randomness: string;
+  amount: string;
+  token?: string;
+}
+
+export interface EncryptedNote {
+  version: number;
+  commitment: string;
+  viewTag: string;
+  ephemeralPublicKey: string;
+  nonce: string;
+  ciphertext: string;
+}
+
+// ECIES output shared by every payload encrypted to a viewing key
+export interface SealedPayload {
+  ephemeralPublicKey: string;
+  nonce: string;
+  ciphertext: string;
+}
+
+export interface ViewingKeyPair {
+  publicKey: string;
+  privateKey: string;
+}
+
+const HEX_32_BYTES = /^(0x)?[0-9a-fA-F]{64}$/;
+
+function toBytes(hex: string): Buffer {
+  return Buffer.from(hex.replace(/^0x/, ''), 'hex');
+}
+
+function toHex(bytes: Buffer): string {
+  return '0x' + bytes.toString('hex');
+}
+
+export function isViewingPublicKey(value: any): boolean {
+  return typeof value === 'string' && HEX_32_BYTES.test(value);
+}
+
+function publicKeyObject(publicKey: string): crypto.KeyObject {
+  return crypto.createPublicKey({
+    key: { kty: 'OKP', crv: 'X25519', x: toBytes(publicKey).toString('base64url') },
+    format: 'jwk'
+  });
+}
+
+function privateKeyObject(privateKey: string, publicKey: string): crypto.KeyObject {
+  return crypto.createPrivateKey({
+    key: {
+      kty: 'OKP',
+      crv: 'X25519',
+      x: toBytes(publicKey).toString('base64url'),
+      d: toBytes(privateKey).toString('base64url')
+    },
+    format: 'jwk'
+  });
+}
+
+function rawKeys(keyPair: crypto.KeyPairKeyObjectResult): ViewingKeyPair {
+  const jwk = keyPair.privateKey.export({ format: 'jwk' });
+  return {
+    publicKey: toHex(Buffer.from(jwk.x!, 'base64url')),
+    privateKey: toHex(Buffer.from(jwk.d!, 'base64url'))
+  };
+}
+
+/**
+ * Derive the X25519 public key for a raw 32-byte private key
+ */
+export function getViewingPublicKey(privateKey: string): string {
+  const key = crypto.createPrivateKey({
+    key: Buffer.concat([
+      // PKCS#8 prefix for a raw X25519 private key
+      Buffer.from('302e020100300506032b656e04220420', 'hex'),
+      toBytes(privateKey)
+    ]),
+    format: 'der',
+    type: 'pkcs8'
+  });
+  const jwk = crypto.createPublicKey(key).export({ format: 'jwk' });
+  return toHex(Buffer.from(jwk.x!, 'base64url'));
+}
+
+export function generateViewingKeyPair(): ViewingKeyPair {
+  return rawKeys(crypto.generateKeyPairSync('x25519'));
+}
+
+function sharedSecret(privateKey: string, publicKey: string, peerPublicKey: string): Buffer {
+  return crypto.diffieHellman({
+    privateKey: privateKeyObject(privateKey, publicKey),
+    publicKey: publicKeyObject(peerPublicKey)
+  });
+}
+
+/**
+ * View tag: first byte of SHA-256(domain || ECDH shared secret), as two hex characters
+ * Only the sender and the recipient know the shared secret, so the tag doesn't link notes to a viewing key;
+ * recipients use it to skip the decryption of ~255/256 of the notes that aren't theirs.
+ */
+function viewTagFor(shared: Buffer): string {
+  return crypto
+    .createHash('sha256')
+    .update(Buffer.concat([Buffer.from(VIEW_TAG_DOMAIN, 'utf-8'), shared]))
+    .digest()
+    .subarray(0, 1)
+    .toString('hex');
+}
+
+function deriveKey(shared: Buffer, ephemeralPublicKey: Buffer, recipientPublicKey: Buffer, info: string): Buffer {
+  return Buffer.from(crypto.hkdfSync(
+    'sha256',
+    shared,
+    Buffer.concat([ephemeralPublicKey, recipientPublicKey]),
+    Buffer.from(info, 'utf-8'),
+    32
+  ));
+}
+
+// The version byte and commitment are authenticated so a ciphertext can't be moved to another commitment
+export function associatedData(version: number, commitment: string): Buffer {
+  return Buffer.concat([Buffer.from([version]), Buffer.from(commitment, 'utf-8')]);
+}
+
+// ECIES encryption; the shared secret is returned as well for the note view tag
+function seal(
+  plaintext: string,
+  recipientViewingPublicKey: string,
+  info: string,
+  aad: Buffer
+): { sealed: SealedPayload; shared: Buffer } {
+  if (!isViewingPublicKey(recipientViewingPublicKey)) {
+    throw new Error('Viewing public key must be 32 bytes of hex');
+  }
+
+  const ephemeral = rawKeys(crypto.generateKeyPairSync('x25519'));
+  const shared = sharedSecret(ephemeral.privateKey, ephemeral.publicKey, recipientViewingPublicKey);
+
+  const key = deriveKey(shared, toBytes(ephemeral.publicKey), toBytes(recipientViewingPublicKey), info);
+  const nonce = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv('aes-256-gcm', key, nonce);
+  cipher.setAAD(aad);
+
+  const ciphertext = Buffer.concat([
+    cipher.update(plaintext, 'utf-8'),
+    cipher.final(),
+    cipher.getAuthTag()
+  ]);
+
+  return {
+    sealed: {
+      ephemeralPublicKey: ephemeral.publicKey,
+      nonce: toHex(nonce),
+      ciphertext: toHex(ciphertext)
+    },
+    shared
+  };
+}
+
+/**
+ * Encrypt a payload to a viewing public key; info separates the key derivation of each payload kind
+ */
+export function sealPayload(plaintext: string, recipientViewingPublicKey: string, info: string, aad: Buffer): SealedPayload {
+  return seal(plaintext, recipientViewingPublicKey, info, aad).sealed;
+}
+
+/**
+ * Decrypt a payload with the viewing private key it was sealed to; throws if it was sealed to another key
+ */
+export function openPayload(sealed: SealedPayload, viewingPrivateKey: string, info: string, aad: Buffer): string {
+  const viewingPublicKey = getViewingPublicKey(viewingPrivateKey);
+  const shared = sharedSecret(viewingPrivateKey, viewingPublicKey, sealed.ephemeralPublicKey);
+
+  const key = deriveKey(shared, toBytes(sealed.ephemeralPublicKey), toBytes(viewingPublicKey), info);
+  const data = toBytes(sealed.ciphertext);
+  const decipher = crypto.createDecipheriv('aes-256-gcm', key, toBytes(sealed.nonce));
+  decipher.setAAD(aad);
+  decipher.setAuthTag(data.subarray(data.length - 16));
+
+  return Buffer.concat([
+    decipher.update(data.subarray(0, data.length - 16)),
+    decipher.final()
+  ]).toString('utf-8');
+}
+
+/**
+ * Encrypt a note to a recipient's viewing public key
+ */
+export function encryptNote(note: NotePlaintext, recipientViewingPublicKey: string): EncryptedNote {
+  const { sealed, shared } = seal(
+    JSON.stringify(note),
+    recipientViewingPublicKey,
+    HKDF_INFO,
+    associatedData(NOTE_ENCRYPTION_VERSION, note.commitment)
+  );
+
+  return {
+    version: NOTE_ENCRYPTION_VERSION,
+    commitment: note.commitment,
+    viewTag: viewTagFor(shared),
+    ...sealed
+  };
+}
+
+/**
+ * Whether a note's view tag matches the one this viewing key derives for it (a cheap filter before decryptNote)
+ */
+export function matchesViewTag(encrypted: EncryptedNote, viewingPrivateKey: string): boolean {
+  const shared = sharedSecret(viewingPrivateKey, getViewingPublicKey(viewingPrivateKey), encrypted.ephemeralPublicKey);
+  return viewTagFor(shared) === encrypted.viewTag;
+}
+
+/**
+ * Decrypt a note with the recipient's viewing private key; throws if the note isn't addressed to it
+ */
+export function decryptNote(encrypted: EncryptedNote, viewingPrivateKey: string): NotePlaintext {
+  if (encrypted.version !== NOTE_ENCRYPTION_VERSION) {
+    throw new Error(`Unsupported note encryption version: ${encrypted.version}`);
+  }
+
+  return JSON.parse(openPayload(
+    encrypted,
+    viewingPrivateKey,
+    HKDF_INFO,
+    associatedData(encrypted.version, encrypted.commitment)
+  ));
+}
@@ -0,0 +1,75 @@
+import { RouteDoc } from '../schemas/routes';
+import { toOpenApi } from './schema';
+
+/**
+ * OpenAPI document generation from the request schemas
+ */
+
+const VALIDATION_ERROR = {
+  type: 'object',
+  properties: {
+    success: { type: 'boolean', enum: [false] },
+    error: { type: 'string' },
+    fields: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          field: { type: 'string' },
+          message: { type: 'string' }
+        },
+        required: ['field', 'message']
+      }
+    }
+  },
+  required: ['success', 'error', 'fields']
+};
+
+function toParameters(location: 'query' | 'path', schema: RouteDoc['query']) {
+  if (!schema) {
+    return [];
+  }
+
+  return Object.entries(schema.shape).map(([name, spec]) => ({
+    name,
+    in: location,
+    required: location === 'path' || spec.required,
+    schema: spec.openapi
+  }));
+}
+
+export function buildOpenApiDocument(routes: RouteDoc[], info: { title: string; version: string }) {
+  const paths: Record<string, Record<string, any>> = {};
+
+  for (const route of routes) {
+    const path = route.path.replace(/:(\w+)/g, '{$1}');
+
+    paths[path] = paths[path] || {};
+    paths[path][route.method] = {
+      summary: route.summary,
+      parameters: [...toParameters('path', route.params), ...toParameters('query', route.query)],
+      ...(route.body ? {
+        requestBody: {
+          required: true,
+          content: { 'application/json': { schema: toOpenApi(route.body) } }
+        }
+      } : {}),
+      responses: {
+        200: { description: 'Success' },
+        400: {
+          description: 'Invalid request; every offending field is listed',
+          content: { 'application/json': { schema: { $ref: '#/components/schemas/ValidationError' } } }
+        }
+      }
+    };
+  }
+
+  return {
+    openapi: '3.0.3',
+    info,
+    paths,
+    components: {
+      schemas: { ValidationError: VALIDATION_ERROR }
+    }
+  };
+}
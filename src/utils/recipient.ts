@@ -0,0 +1,69 @@
+import { ethers } from 'ethers';
+
+/**
+ * Recipient encoding
+ * Circuits bind the recipient as a field element: the 160-bit address read as a big-endian unsigned integer,
+ * written in decimal (0x00…01 -> "1"). 0 means "no recipient" and is only accepted where a proof doesn't pay
+ * anyone out. Wallets must use the same encoding or their proofs won't match ours.
+ */
+
+export const NO_RECIPIENT = '0';
+
+const MAX_ADDRESS = (1n << 160n) - 1n;
+
+export class RecipientError extends Error {
+  field: string;
+  reason: string;
+
+  constructor(reason: string, field = 'recipient') {
+    super(`${field}: ${reason}`);
+    this.name = 'RecipientError';
+    this.field = field;
+    this.reason = reason;
+  }
+}
+
+/**
+ * Encode an address as the recipient field element; a missing recipient encodes as 0
+ */
+export function encodeRecipient(address?: string | null, field = 'recipient'): string {
+  if (address === undefined || address === null || address === '') {
+    return NO_RECIPIENT;
+  }
+
+  if (!ethers.isAddress(address)) {
+    throw new RecipientError(`"${address}" is not an address`, field);
+  }
+
+  return BigInt(ethers.getAddress(address)).toString();
+}
+
+/**
+ * Encode a recipient that funds are paid to; throws RecipientError for a missing or zero address
+ */
+export function encodePayoutRecipient(address?: string | null, field = 'recipient'): string {
+  const encoded = encodeRecipient(address, field);
+
+  if (encoded === NO_RECIPIENT) {
+    throw new RecipientError('must be a non-zero address; funds would be sent to the zero address', field);
+  }
+
+  return encoded;
+}
+
+/**
+ * Decode a recipient field element back to a checksummed address (null for 0, i.e. no recipient)
+ */
+export function decodeRecipient(field: string): string | null {
+  const value = BigInt(field);
+
+  if (value < 0n || value > MAX_ADDRESS) {
+    throw new RecipientError(`signal ${field} is not a 160-bit address`);
+  }
+
+  if (value === 0n) {
+    return null;
+  }
+
+  return ethers.getAddress('0x' + value.toString(16).padStart(40, '0'));
+}
@@ -0,0 +1,138 @@
+import { describe, expect, it } from 'vitest';
+import { SNARK_SCALAR_FIELD } from './field';
+import { RequestValidationError, fields, objectSchema, toOpenApi, validate } from './schema';
+
+const issuesOf = (fn: () => unknown) => {
+  try {
+    fn();
+  } catch (error) {
+    if (error instanceof RequestValidationError) {
+      return error.fields;
+    }
+    throw error;
+  }
+  return [];
+};
+
+describe('validate', () => {
+  const schema = objectSchema({
+    name: fields.string({ maxLength: 4 }),
+    count: fields.integer({ min: 1, max: 10 }).optional(),
+    flag: fields.boolean().optional()
+  });
+
+  it('returns the parsed value with missing optional fields left out', () => {
+    expect(validate(schema, { name: 'abc', count: '3' })).toEqual({ name: 'abc', count: 3 });
+  });
+
+  it('reports every offending field, not just the first', () => {
+    expect(issuesOf(() => validate(schema, { name: 'abcdef', count: 11, flag: 'yes' }))).toEqual([
+      { field: 'name', message: 'must be at most 4 characters' },
+      { field: 'count', message: 'must be at most 10' },
+      { field: 'flag', message: 'must be true or false' }
+    ]);
+  });
+
+  it('treats undefined, null and empty strings as missing', () => {
+    for (const name of [undefined, null, '']) {
+      expect(issuesOf(() => validate(schema, { name }))).toEqual([{ field: 'name', message: 'is required' }]);
+    }
+  });
+
+  it('drops fields the schema does not list', () => {
+    expect(validate(schema, { name: 'a', extra: 1 })).toEqual({ name: 'a' });
+  });
+
+  it('runs refinements only once every field parses', () => {
+    const refined = objectSchema(
+      { from: fields.integer(), to: fields.integer() },
+      value => value.from <= value.to ? [] : [{ field: 'to', message: 'must not be below from' }]
+    );
+
+    expect(issuesOf(() => validate(refined, { from: 5, to: 2 }))).toEqual([{ field: 'to', message: 'must not be below from' }]);
+    expect(issuesOf(() => validate(refined, { from: 'x', to: 2 }))).toEqual([{ field: 'from', message: 'must be an integer' }]);
+  });
+
+  it('prefixes nested object and array paths', () => {
+    const nested = objectSchema({
+      notes: fields.array(fields.object(objectSchema({ amount: fields.amount() })), { max: 2 })
+    });
+
+    expect(issuesOf(() => validate(nested, { notes: [{ amount: '1' }, { amount: '-1' }] }))).toEqual([
+      { field: 'notes[1].amount', message: 'must be a plain decimal amount' }
+    ]);
+    expect(issuesOf(() => validate(nested, { notes: [{}, {}, {}] }))).toEqual([
+      { field: 'notes', message: 'must have at most 2 items' }
+    ]);
+  });
+});
+
+describe('fields', () => {
+  const parse = (field: any, value: any) => validate(objectSchema({ value: field }), { value }).value;
+
+  it('integer accepts integers and digit strings only', () => {
+    expect(parse(fields.integer(), '42')).toBe(42);
+    for (const value of ['1.5', '-1', '0x10', 1.5, '9007199254740993']) {
+      expect(() => parse(fields.integer(), value)).toThrow(RequestValidationError);
+    }
+  });
+
+  it('fieldElement canonicalises to decimal and rejects values at or above the modulus', () => {
+    expect(parse(fields.fieldElement(), '0x0a')).toBe('10');
+    expect(parse(fields.fieldElement(), (SNARK_SCALAR_FIELD - 1n).toString())).toBe((SNARK_SCALAR_FIELD - 1n).toString());
+    expect(issuesOf(() => parse(fields.fieldElement(), SNARK_SCALAR_FIELD.toString()))).toEqual([
+      { field: 'value', message: 'must be below the BN254 scalar field modulus' }
+    ]);
+    expect(() => parse(fields.fieldElement(), 10)).toThrow(RequestValidationError);
+  });
+
+  it('address checksums lowercase input and refuses a bad mixed-case checksum', () => {
+    expect(parse(fields.address(), '0x5aaeb6053f3e94c9b9a09f33669435e7ef1beaed')).toBe('0x5aAeb6053F3E94C9b9A09f33669435E7Ef1BeAed');
+    expect(issuesOf(() => parse(fields.address(), '0x5AAeb6053F3E94C9b9A09f33669435E7Ef1BeAed'))).toEqual([
+      { field: 'value', message: 'has an invalid EIP-55 checksum' }
+    ]);
+    expect(() => parse(fields.address(), '0x1234')).toThrow(RequestValidationError);
+  });
+
+  it('amount accepts plain decimals, including numbers, and nothing else', () => {
+    expect(parse(fields.amount(), '1.5')).toBe('1.5');
+    expect(parse(fields.amount(), 2)).toBe('2');
+    for (const value of ['1e18', '-1', '1,5', '', '.']) {
+      expect(() => validate(objectSchema({ value: fields.amount() }), { value })).toThrow(RequestValidationError);
+    }
+  });
+
+  it('enumOf and hex accept only their values', () => {
+    expect(parse(fields.enumOf(['a', 'b'] as const), 'b')).toBe('b');
+    expect(() => parse(fields.enumOf(['a', 'b'] as const), 'c')).toThrow(/must be one of a, b/);
+    expect(parse(fields.hex(2, 'two bytes'), '0xabcd')).toBe('0xabcd');
+    expect(() => parse(fields.hex(2, 'two bytes'), '0xabc')).toThrow(/must be two bytes/);
+  });
+
+  it('json accepts objects only', () => {
+    expect(parse(fields.json('a proof'), { a: 1 })).toEqual({ a: 1 });
+    expect(() => parse(fields.json('a proof'), [1])).toThrow(/must be an object/);
+  });
+});
+
+describe('toOpenApi', () => {
+  it('lists properties with their descriptions and the required ones', () => {
+    const schema = objectSchema({
+      amount: fields.amount(),
+      note: fields.string().optional().describe('Free text')
+    });
+
+    expect(toOpenApi(schema)).toEqual({
+      type: 'object',
+      properties: {
+        amount: expect.objectContaining({ type: 'string' }),
+        note: { type: 'string', description: 'Free text' }
+      },
+      required: ['amount']
+    });
+  });
+
+  it('leaves out required when every field is optional', () => {
+    expect(toOpenApi(objectSchema({ a: fields.boolean().optional() }))).not.toHaveProperty('required');
+  });
+});
@@ -0,0 +1,306 @@
+import { ethers } from 'ethers';
+import { DECIMAL_AMOUNT } from './amounts';
+import { FIELD_ELEMENT_PATTERN, FieldElementError, parseFieldElement } from './field';
+
+/**
+ * Request schemas
+ * Small declarative validators for request bodies, queries and route params. Each field parses its raw value
+ * into a typed one and describes itself as an OpenAPI schema, so the same definitions validate requests and
+ * generate the API document. Validation collects every offending field instead of stopping at the first.
+ */
+
+export interface FieldIssue {
+  field: string;
+  message: string;
+}
+
+export class RequestValidationError extends Error {
+  fields: FieldIssue[];
+
+  constructor(fields: FieldIssue[]) {
+    super(`Invalid request: ${fields.map(issue => `${issue.field} ${issue.message}`).join('; ')}`);
+    this.name = 'RequestValidationError';
+    this.fields = fields;
+  }
+}
+
+type Parser<T> = (value: any, path: string, issues: FieldIssue[]) => T | undefined;
+
+// R records at the type level whether the field is required, so Infer can mark optional keys
+export class Field<T, R extends boolean = true> {
+  constructor(
+    readonly parse: Parser<T>,
+    readonly openapi: Record<string, any>,
+    readonly required: R = true as R
+  ) {}
+
+  optional(): Field<T | undefined, false> {
+    return new Field<T | undefined, false>(this.parse, this.openapi, false);
+  }
+
+  describe(description: string): Field<T, R> {
+    return new Field<T, R>(this.parse, { ...this.openapi, description }, this.required);
+  }
+}
+
+export type Shape = Record<string, Field<any, boolean>>;
+
+type FieldValue<F> = F extends Field<infer T, boolean> ? T : never;
+type OptionalKeys<S extends Shape> = { [K in keyof S]: S[K] extends Field<any, false> ? K : never }[keyof S];
+
+export type Infer<S extends Shape> =
+  { [K in Exclude<keyof S, OptionalKeys<S>>]: FieldValue<S[K]> } &
+  { [K in OptionalKeys<S>]?: FieldValue<S[K]> };
+
+export interface ObjectSchema<S extends Shape> {
+  shape: S;
+  // Cross-field rules, run once every field has parsed
+  refine?: (value: Infer<S>) => FieldIssue[];
+}
+
+const isMissing = (value: any) => value === undefined || value === null || value === '';
+
+// Thrown by field parsers; parseObject records it against the field's path
+class InvalidValue extends Error {}
+
+function invalid(message: string): never {
+  throw new InvalidValue(message);
+}
+
+function field<T>(openapi: Record<string, any>, parse: (value: any) => T): Field<T> {
+  return new Field<T>((value, path, issues) => {
+    try {
+      return parse(value);
+    } catch (error: any) {
+      if (!(error instanceof InvalidValue)) {
+        throw error;
+      }
+      issues.push({ field: path, message: error.message });
+      return undefined;
+    }
+  }, openapi);
+}
+
+/**
+ * Parse an object against a shape; missing required fields and every invalid field are reported in issues
+ */
+export function parseObject<S extends Shape>(
+  schema: ObjectSchema<S>,
+  input: any,
+  issues: FieldIssue[],
+  prefix = ''
+): Infer<S> {
+  const source = input && typeof input === 'object' && !Array.isArray(input) ? input : {};
+  const value: Record<string, any> = {};
+  const before = issues.length;
+
+  for (const [key, spec] of Object.entries(schema.shape)) {
+    const path = prefix ? `${prefix}.${key}` : key;
+
+    if (isMissing(source[key])) {
+      if (spec.required) {
+        issues.push({ field: path, message: 'is required' });
+      }
+      continue;
+    }
+
+    value[key] = spec.parse(source[key], path, issues);
+  }
+
+  if (schema.refine && issues.length === before) {
+    issues.push(...schema.refine(value as Infer<S>).map(issue => ({
+      ...issue,
+      field: prefix ? `${prefix}.${issue.field}` : issue.field
+    })));
+  }
+
+  return value as Infer<S>;
+}
+
+/**
+ * Parse an object against a shape, throwing RequestValidationError listing every offending field
+ */
+export function validate<S extends Shape>(schema: ObjectSchema<S>, input: any): Infer<S> {
+  const issues: FieldIssue[] = [];
+  const value = parseObject(schema, input, issues);
+
+  if (issues.length > 0) {
+    throw new RequestValidationError(issues);
+  }
+
+  return value;
+}
+
+export function objectSchema<S extends Shape>(shape: S, refine?: (value: Infer<S>) => FieldIssue[]): ObjectSchema<S> {
+  return { shape, refine };
+}
+
+/**
+ * OpenAPI schema for an object shape
+ */
+export function toOpenApi(schema: ObjectSchema<Shape>): Record<string, any> {
+  const required = Object.entries(schema.shape).filter(([, spec]) => spec.required).map(([key]) => key);
+
+  return {
+    type: 'object',
+    properties: Object.fromEntries(Object.entries(schema.shape).map(([key, spec]) => [key, spec.openapi])),
+    ...(required.length > 0 ? { required } : {})
+  };
+}
+
+export const fields = {
+  string(options: { pattern?: RegExp; maxLength?: number; description?: string } = {}): Field<string> {
+    return field<string>(
+      {
+        type: 'string',
+        ...(options.pattern ? { pattern: options.pattern.source } : {}),
+        ...(options.maxLength ? { maxLength: options.maxLength } : {}),
+        ...(options.description ? { description: options.description } : {})
+      },
+      value => {
+        if (typeof value !== 'string') {
+          invalid('must be a string');
+        }
+        if (options.pattern && !options.pattern.test(value)) {
+          invalid(`must match ${options.pattern.source}`);
+        }
+        if (options.maxLength && value.length > options.maxLength) {
+          invalid(`must be at most ${options.maxLength} characters`);
+        }
+        return value;
+      }
+    );
+  },
+
+  enumOf<T extends string>(values: readonly T[]): Field<T> {
+    return field<T>({ type: 'string', enum: values }, value =>
+      values.includes(value) ? value : invalid(`must be one of ${values.join(', ')}`)
+    );
+  },
+
+  boolean(): Field<boolean> {
+    return field<boolean>({ type: 'boolean' }, value =>
+      typeof value === 'boolean' ? value : invalid('must be true or false')
+    );
+  },
+
+  integer(options: { min?: number; max?: number } = {}): Field<number> {
+    return field<number>({ oneOf: [{ type: 'integer' }, { type: 'string', pattern: '^[0-9]+$' }] }, value => {
+      const parsed = typeof value === 'number' || (typeof value === 'string' && /^[0-9]+$/.test(value))
+        ? Number(value)
+        : NaN;
+      if (!Number.isSafeInteger(parsed)) {
+        invalid('must be an integer');
+      }
+      if (options.min !== undefined && parsed < options.min) {
+        invalid(`must be at least ${options.min}`);
+      }
+      if (options.max !== undefined && parsed > options.max) {
+        invalid(`must be at most ${options.max}`);
+      }
+      return parsed;
+    });
+  },
+
+  /**
+   * Human-readable token amount ("1.5"); token decimals are applied once the token is resolved
+   */
+  amount(): Field<string> {
+    return field<string>(
+      { type: 'string', pattern: DECIMAL_AMOUNT.source, description: 'Decimal token amount, e.g. "1.5"' },
+      value => {
+        const text = typeof value === 'number' ? value.toString() : value;
+        return typeof text === 'string' && DECIMAL_AMOUNT.test(text) ? text : invalid('must be a plain decimal amount');
+      }
+    );
+  },
+
+  /**
+   * BN254 field element as a decimal or 0x-hex string; parsed to its decimal form
+   */
+  fieldElement(): Field<string> {
+    return field<string>(
+      { type: 'string', pattern: FIELD_ELEMENT_PATTERN.source, description: 'BN254 field element (decimal or 0x-hex)' },
+      value => {
+        if (typeof value !== 'string') {
+          invalid('must be a decimal or 0x-hex integer string');
+        }
+        try {
+          return parseFieldElement(value).toString();
+        } catch (error) {
+          if (error instanceof FieldElementError) {
+            invalid(error.reason);
+          }
+          throw error;
+        }
+      }
+    );
+  },
+
+  /**
+   * Ethereum address; mixed-case input must carry a valid EIP-55 checksum. Parsed to its checksummed form.
+   */
+  address(): Field<string> {
+    return field<string>(
+      { type: 'string', pattern: '^0x[0-9a-fA-F]{40}$', description: 'Ethereum address (EIP-55 checksum if mixed-case)' },
+      value => {
+        if (typeof value !== 'string' || !/^0x[0-9a-fA-F]{40}$/.test(value)) {
+          invalid('must be a 20-byte 0x-prefixed address');
+        }
+        if (!ethers.isAddress(value)) {
+          invalid('has an invalid EIP-55 checksum');
+        }
+        return ethers.getAddress(value);
+      }
+    );
+  },
+
+  hex(bytes: number, description: string): Field<string> {
+    const pattern = new RegExp(`^(0x)?[0-9a-fA-F]{${bytes * 2}}$`);
+    return field<string>({ type: 'string', pattern: pattern.source, description }, value =>
+      typeof value === 'string' && pattern.test(value) ? value : invalid(`must be ${description}`)
+    );
+  },
+
+  /**
+   * Any JSON object, checked in depth by the handler (e.g. a Groth16 proof)
+   */
+  json(description: string): Field<Record<string, any>> {
+    return field<Record<string, any>>({ type: 'object', description }, value =>
+      value && typeof value === 'object' && !Array.isArray(value) ? value : invalid('must be an object')
+    );
+  },
+
+  array<T>(item: Field<T>, options: { min?: number; max?: number } = {}): Field<T[]> {
+    return new Field<T[]>((value, path, issues) => {
+      if (!Array.isArray(value)) {
+        issues.push({ field: path, message: 'must be an array' });
+        return undefined;
+      }
+      if (options.min !== undefined && value.length < options.min) {
+        issues.push({ field: path, message: `must have at least ${options.min} items` });
+        return undefined;
+      }
+      if (options.max !== undefined && value.length > options.max) {
+        issues.push({ field: path, message: `must have at most ${options.max} items` });
+        return undefined;
+      }
+      return value.map((entry, i) => item.parse(entry, `${path}[${i}]`, issues));
+    }, {
+      type: 'array',
+      items: item.openapi,
+      ...(options.min !== undefined ? { minItems: options.min } : {}),
+      ...(options.max !== undefined ? { maxItems: options.max } : {})
+    });
+  },
+
+  object<S extends Shape>(schema: ObjectSchema<S>): Field<Infer<S>> {
+    return new Field<Infer<S>>((value, path, issues) => {
+      if (!value || typeof value !== 'object' || Array.isArray(value)) {
+        issues.push({ field: path, message: 'must be an object' });
+        return undefined;
+      }
+      return parseObject(schema, value, issues, path);
+    }, toOpenApi(schema));
+  }
+};
@@ -0,0 +1,44 @@
+import { ProofGeneratorService, ProofStage } from '../services/proof-generator';
+
+/**
+ * Proof Worker
+ * Runs proof generation in a child process off the server's event loop; one job at a time per worker
+ */
+
+// Chains can use different circuit sets, so keep one initialized generator per circuits directory
+const generators: Map<string, Promise<ProofGeneratorService>> = new Map();
+
+function getGenerator(circuitsPath: string): Promise<ProofGeneratorService> {
+  let generator = generators.get(circuitsPath);
+
+  if (!generator) {
+    const service = new ProofGeneratorService(circuitsPath);
+    generator = service.initialize().then(() => service);
+    generators.set(circuitsPath, generator);
+  }
+
+  return generator;
+}
+
+process.on('message', async ({ jobId, type, inputs, circuitsPath }: any) => {
+  const onProgress = (stage: ProofStage) => process.send!({ jobId, stage });
+
+  try {
+    const generator = await getGenerator(circuitsPath);
+
+    let result;
+    if (type === 'shield') {
+      result = await generator.generateShieldProof(inputs, onProgress);
+    } else if (type === 'unshield') {
+      result = await generator.generateUnshieldProof(inputs, onProgress);
+    } else if (type === 'transfer') {
+      result = await generator.generateTransferProof(inputs, onProgress);
+    } else {
+      throw new Error(`Unknown proof type: ${type}`);
+    }
+
+    process.send!({ jobId, result });
+  } catch (error: any) {
+    process.send!({ jobId, error: error.message || 'Proof generation failed' });
+  }
+});